@@ -10,7 +10,13 @@ import StudentDashboard from "./pages/StudentDashboard";
 import StudentComplaintDetail from "./pages/StudentComplaintDetail";
 import AdminDashboard from "./pages/AdminDashboard";
 import AdminComplaintDetail from "./pages/AdminComplaintDetail";
+import AdminCaseFile from "./pages/AdminCaseFile";
+import AdminRoutingSettings from "./pages/AdminRoutingSettings";
+import AdminAnalytics from "./pages/AdminAnalytics";
+import AdminImportComplaints from "./pages/AdminImportComplaints";
+import AdminUsers from "./pages/AdminUsers";
 import NewComplaint from "./pages/NewComplaint";
+import Notifications from "./pages/Notifications";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -30,6 +36,12 @@ const App = () => (
             <Route path="/student/new-complaint" element={<NewComplaint />} />
             <Route path="/admin" element={<AdminDashboard />} />
             <Route path="/admin/complaint/:id" element={<AdminComplaintDetail />} />
+            <Route path="/admin/complaint/:id/case-file" element={<AdminCaseFile />} />
+            <Route path="/admin/settings/routing" element={<AdminRoutingSettings />} />
+            <Route path="/admin/analytics" element={<AdminAnalytics />} />
+            <Route path="/admin/import" element={<AdminImportComplaints />} />
+            <Route path="/admin/users" element={<AdminUsers />} />
+            <Route path="/notifications" element={<Notifications />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
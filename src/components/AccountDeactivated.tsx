@@ -0,0 +1,33 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { UserX } from "lucide-react";
+
+interface AccountDeactivatedProps {
+  onDismiss: () => void;
+}
+
+// Shown in place of the app after a deactivated account has been signed out
+export function AccountDeactivated({ onDismiss }: AccountDeactivatedProps) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <UserX className="mx-auto mb-2 h-10 w-10 text-destructive" />
+          <CardTitle>Account deactivated</CardTitle>
+          <CardDescription>
+            An administrator has deactivated your BrotoRaise account, so you have been signed out.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center text-sm text-muted-foreground">
+          <p>
+            Your complaints and their history are kept. If you think this is a mistake, contact the BrotoRaise
+            administrators to have your account reactivated.
+          </p>
+          <Button className="w-full" onClick={onDismiss}>
+            Back to sign in
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
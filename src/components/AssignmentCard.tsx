@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { StaffMember } from "@/hooks/use-staff";
+import { Complaint } from "@/lib/types";
+import { describeComplaintError } from "@/lib/complaintErrors";
+import { UserCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+const UNASSIGNED = "unassigned";
+
+interface AssignmentCardProps {
+  complaint: Complaint;
+  staff: StaffMember[];
+  onAssigned: () => void;
+}
+
+export const AssignmentCard = ({ complaint, staff, onAssigned }: AssignmentCardProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [assignee, setAssignee] = useState(complaint.assigned_to || UNASSIGNED);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setAssignee(complaint.assigned_to || UNASSIGNED);
+  }, [complaint.assigned_to]);
+
+  const assign = async (assigneeId: string | null) => {
+    setSaving(true);
+
+    const { error } = await supabase.rpc(
+      "assign_complaint",
+      assigneeId ? { _complaint_id: complaint.id, _assignee_id: assigneeId } : { _complaint_id: complaint.id }
+    );
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        ...describeComplaintError(error, "Assignment failed", "Failed to assign complaint."),
+      });
+    } else {
+      toast({
+        title: assigneeId ? "Complaint assigned" : "Complaint unassigned",
+        description: assigneeId
+          ? `Now owned by ${staff.find((s) => s.id === assigneeId)?.full_name || "a staff member"}.`
+          : "This complaint is back in the unassigned queue.",
+      });
+      onAssigned();
+    }
+    setSaving(false);
+  };
+
+  const currentAssignee = complaint.assigned_to || UNASSIGNED;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Assignment</CardTitle>
+        <CardDescription>Choose who owns this complaint</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Select value={assignee} onValueChange={setAssignee} disabled={saving}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {staff.map((member) => (
+              <SelectItem key={member.id} value={member.id}>
+                {member.full_name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex gap-2">
+          <Button
+            className="flex-1"
+            onClick={() => assign(assignee === UNASSIGNED ? null : assignee)}
+            disabled={assignee === currentAssignee || saving}
+          >
+            {saving ? "Saving..." : complaint.assigned_to ? "Reassign" : "Assign"}
+          </Button>
+          {user && complaint.assigned_to !== user.id && (
+            <Button variant="outline" onClick={() => assign(user.id)} disabled={saving}>
+              <UserCheck className="mr-2 h-4 w-4" />
+              Take it
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
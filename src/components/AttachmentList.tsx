@@ -0,0 +1,308 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Attachment } from "@/lib/types";
+import { fromAdminAttachmentRow } from "@/lib/adminComplaints";
+import {
+  MAX_ATTACHMENTS,
+  downloadAttachment,
+  formatFileSize,
+  getAttachmentUrl,
+  isImageAttachment,
+  isPreviewable,
+  uploadAttachment,
+  validateAttachment,
+} from "@/lib/attachments";
+import { Download, Eye, FileText, Paperclip } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useComplaintActivity } from "@/hooks/use-complaint-activity";
+
+interface AttachmentListProps {
+  complaintId: string;
+  viewer: "student" | "admin";
+  canUpload?: boolean;
+  onUploaded?: () => void;
+}
+
+export const AttachmentList = ({ complaintId, viewer, canUpload = false, onUploaded }: AttachmentListProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploads, setUploads] = useState<{ name: string; progress: number }[]>([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<{ attachment: Attachment; url: string } | null>(null);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [complaintId]);
+
+  const fetchAttachments = async () => {
+    if (viewer === "admin") {
+      const { data, error } = await supabase
+        .from("admin_attachments")
+        .select("*")
+        .eq("complaint_id", complaintId)
+        .order("created_at", { ascending: true });
+
+      if (!error && data) {
+        loadThumbnails(data.map(fromAdminAttachmentRow));
+      }
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("attachments")
+      .select("*")
+      .eq("complaint_id", complaintId)
+      .order("created_at", { ascending: true });
+
+    if (!error && data) {
+      loadThumbnails(data);
+    }
+  };
+
+  useComplaintActivity(
+    `attachments:${complaintId}`,
+    (activity) => {
+      if (activity.source === "attachments") fetchAttachments();
+    },
+    { complaintId }
+  );
+
+  const loadThumbnails = async (items: Attachment[]) => {
+    setAttachments(items);
+
+    const entries = await Promise.all(
+      items.filter(isImageAttachment).map(async (item) => {
+        try {
+          return [item.id, await getAttachmentUrl(item)] as const;
+        } catch {
+          return null;
+        }
+      })
+    );
+    setThumbnails(Object.fromEntries(entries.filter((entry) => entry !== null)));
+  };
+
+  const openPreview = async (attachment: Attachment) => {
+    try {
+      const url = thumbnails[attachment.id] || (await getAttachmentUrl(attachment));
+      setPreview({ attachment, url });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Preview failed",
+        description: (error as Error).message || "Could not load this attachment.",
+      });
+    }
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      await downloadAttachment(attachment);
+    } catch (error) {
+      console.error("Error downloading file:", error);
+      toast({
+        variant: "destructive",
+        title: "Download failed",
+        description: "Could not download this attachment.",
+      });
+    }
+  };
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (!user || selected.length === 0) return;
+
+    const valid = selected.filter((file) => {
+      const problem = validateAttachment(file);
+      if (problem) {
+        toast({ variant: "destructive", title: "File not added", description: problem });
+      }
+      return !problem;
+    }).slice(0, MAX_ATTACHMENTS);
+    if (valid.length === 0) return;
+
+    setUploads(valid.map((file) => ({ name: file.name, progress: 0 })));
+
+    const results = await Promise.allSettled(
+      valid.map((file, index) =>
+        uploadAttachment({
+          complaintId,
+          ownerId: user.id,
+          file,
+          onProgress: (percent) =>
+            setUploads((prev) => prev.map((u, i) => (i === index ? { ...u, progress: percent } : u))),
+        })
+      )
+    );
+    const failed = valid.filter((_, index) => results[index].status === "rejected");
+
+    if (failed.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Upload failed",
+        description: `${failed.map((f) => f.name).join(", ")} could not be uploaded.`,
+      });
+    }
+    if (failed.length < valid.length) {
+      fetchAttachments();
+      onUploaded?.();
+    }
+    setUploads([]);
+  };
+
+  const uploaderLabel = (attachment: Attachment) => {
+    if (attachment.owner_user_id && attachment.owner_user_id === user?.id) return "You";
+    if (viewer === "admin") {
+      return attachment.uploader?.full_name || (attachment.uploaded_by_staff ? "Staff" : "Student");
+    }
+    return "Staff";
+  };
+
+  const uploadedText = (attachment: Attachment) =>
+    `${uploaderLabel(attachment)} · ${format(new Date(attachment.created_at), "PP p")}`;
+
+  const images = attachments.filter(isImageAttachment);
+  const files = attachments.filter((a) => !isImageAttachment(a));
+
+  return (
+    <div>
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold">Attachments ({attachments.length})</h3>
+        {canUpload && (
+          <>
+            <input
+              ref={inputRef}
+              type="file"
+              multiple
+              accept=".pdf,.jpg,.jpeg,.png"
+              onChange={handleFilesSelected}
+              className="hidden"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => inputRef.current?.click()}
+              disabled={uploads.length > 0}
+            >
+              <Paperclip className="mr-2 h-4 w-4" />
+              Add files
+            </Button>
+          </>
+        )}
+      </div>
+
+      {uploads.length > 0 && (
+        <div className="mb-3 space-y-2">
+          {uploads.map((upload, index) => (
+            <div key={`${upload.name}-${index}`} className="rounded-lg border p-2 text-sm">
+              <p className="truncate">{upload.name}</p>
+              <Progress value={upload.progress} className="mt-2 h-1.5" />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {attachments.length === 0 && uploads.length === 0 && (
+        <p className="text-sm text-muted-foreground">No attachments</p>
+      )}
+
+      {images.length > 0 && (
+        <div className="mb-3 grid grid-cols-2 gap-2 sm:grid-cols-3">
+          {images.map((attachment) => (
+            <div key={attachment.id} className="space-y-1">
+              <button
+                type="button"
+                onClick={() => openPreview(attachment)}
+                className="group relative aspect-square w-full overflow-hidden rounded-lg border bg-muted"
+                title={attachment.original_filename}
+              >
+                {thumbnails[attachment.id] ? (
+                  <img
+                    src={thumbnails[attachment.id]}
+                    alt={attachment.original_filename}
+                    className="h-full w-full object-cover transition-transform group-hover:scale-105"
+                  />
+                ) : (
+                  <div className="flex h-full items-center justify-center text-xs text-muted-foreground">
+                    Loading...
+                  </div>
+                )}
+                <span className="absolute inset-x-0 bottom-0 truncate bg-background/80 px-2 py-1 text-left text-xs">
+                  {attachment.original_filename}
+                </span>
+              </button>
+              <p className="truncate text-xs text-muted-foreground">{uploadedText(attachment)}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <div className="space-y-2">
+          {files.map((attachment) => (
+            <div key={attachment.id} className="flex items-center justify-between gap-2 rounded-lg border p-2">
+              <div className="flex min-w-0 items-center gap-2 text-sm">
+                <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0">
+                  <p className="truncate">{attachment.original_filename}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {formatFileSize(attachment.byte_size)} · {uploadedText(attachment)}
+                  </p>
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                {isPreviewable(attachment) && (
+                  <Button variant="ghost" size="sm" onClick={() => openPreview(attachment)}>
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => handleDownload(attachment)}>
+                  <Download className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-4xl">
+          {preview && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="truncate pr-6">{preview.attachment.original_filename}</DialogTitle>
+              </DialogHeader>
+              {isImageAttachment(preview.attachment) ? (
+                <img
+                  src={preview.url}
+                  alt={preview.attachment.original_filename}
+                  className="max-h-[70vh] w-full rounded-md object-contain"
+                />
+              ) : (
+                <iframe
+                  src={preview.url}
+                  title={preview.attachment.original_filename}
+                  className="h-[70vh] w-full rounded-md border"
+                />
+              )}
+              <div className="flex justify-end">
+                <Button variant="outline" size="sm" onClick={() => handleDownload(preview.attachment)}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useStaffMembers } from "@/hooks/use-staff";
+import { BulkComplaintAction, BulkComplaintResult, ComplaintStatus } from "@/lib/types";
+import { COMPLAINT_STATUSES, STATUS_LABELS } from "@/lib/status";
+import { describeComplaintError } from "@/lib/complaintErrors";
+import { Download, RefreshCw, Tag, UserCheck, X } from "lucide-react";
+
+interface BulkActionBarProps {
+  selectedIds: string[];
+  onClear: () => void;
+  onCompleted: () => void;
+  onExport: () => Promise<void>;
+}
+
+const UNASSIGNED = "unassigned";
+
+const ACTION_TITLES: Record<BulkComplaintAction, string> = {
+  status: "Change status",
+  assign: "Assign",
+  tag: "Add tag",
+};
+
+export function BulkActionBar({ selectedIds, onClear, onCompleted, onExport }: BulkActionBarProps) {
+  const { toast } = useToast();
+  const { staff } = useStaffMembers();
+  const [action, setAction] = useState<BulkComplaintAction | null>(null);
+  const [toStatus, setToStatus] = useState<ComplaintStatus | "">("");
+  const [assigneeId, setAssigneeId] = useState("");
+  const [tag, setTag] = useState("");
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const count = selectedIds.length;
+  const noun = count === 1 ? "complaint" : "complaints";
+
+  const openAction = (next: BulkComplaintAction) => {
+    setToStatus("");
+    setAssigneeId("");
+    setTag("");
+    setNote("");
+    setAction(next);
+  };
+
+  const canSubmit =
+    (action === "status" && !!toStatus) || (action === "assign" && !!assigneeId) || (action === "tag" && !!tag.trim());
+
+  const handleSubmit = async () => {
+    if (!action || !canSubmit) return;
+
+    setSubmitting(true);
+    const { data, error } = await supabase.rpc("bulk_update_complaints", {
+      _complaint_ids: selectedIds,
+      _action: action,
+      ...(action === "status" && { _to_status: toStatus as ComplaintStatus, _note: note }),
+      ...(action === "assign" && assigneeId !== UNASSIGNED && { _assignee_id: assigneeId }),
+      ...(action === "tag" && { _tag: tag }),
+    });
+
+    if (error) {
+      toast({ variant: "destructive", ...describeComplaintError(error, "Bulk update failed", "Please try again.") });
+    } else {
+      const failed = ((data ?? []) as BulkComplaintResult[]).filter((r) => !r.succeeded);
+      if (failed.length === 0) {
+        toast({ title: "Complaints updated", description: `${ACTION_TITLES[action]}: ${count} ${noun} done.` });
+      } else {
+        const first = describeComplaintError(
+          { code: failed[0].error_code, message: failed[0].error_message },
+          "Some updates failed",
+          "Please try again."
+        );
+        toast({
+          variant: "destructive",
+          title: `${failed.length} of ${count} not updated`,
+          description: `${first.title}: ${first.description}`,
+        });
+      }
+      setAction(null);
+      onCompleted();
+    }
+    setSubmitting(false);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    await onExport();
+    setExporting(false);
+  };
+
+  if (count === 0) return null;
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 px-4 py-2">
+      <span className="mr-2 text-sm font-medium">
+        {count} {noun} selected
+      </span>
+      <Button variant="outline" size="sm" onClick={() => openAction("status")}>
+        <RefreshCw className="mr-2 h-4 w-4" />
+        Change status
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => openAction("assign")}>
+        <UserCheck className="mr-2 h-4 w-4" />
+        Assign
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => openAction("tag")}>
+        <Tag className="mr-2 h-4 w-4" />
+        Add tag
+      </Button>
+      <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting}>
+        <Download className="mr-2 h-4 w-4" />
+        {exporting ? "Exporting..." : "Export CSV"}
+      </Button>
+      <Button variant="ghost" size="sm" className="ml-auto" onClick={onClear}>
+        <X className="mr-2 h-4 w-4" />
+        Clear selection
+      </Button>
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{action && ACTION_TITLES[action]}</DialogTitle>
+            <DialogDescription>
+              Applies to {count} {noun}. Each change is recorded in the complaint's history; complaints that
+              cannot be changed are skipped and reported.
+            </DialogDescription>
+          </DialogHeader>
+
+          {action === "status" && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="bulk-status">New status</Label>
+                <Select value={toStatus} onValueChange={(value) => setToStatus(value as ComplaintStatus)}>
+                  <SelectTrigger id="bulk-status">
+                    <SelectValue placeholder="Choose a status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMPLAINT_STATUSES.map((value) => (
+                      <SelectItem key={value} value={value}>{STATUS_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bulk-note">Note (required for some transitions)</Label>
+                <Textarea
+                  id="bulk-note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  maxLength={5000}
+                  rows={3}
+                  placeholder="e.g. Discussed in the mentor meeting on Monday"
+                />
+              </div>
+            </div>
+          )}
+
+          {action === "assign" && (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-assignee">Assignee</Label>
+              <Select value={assigneeId} onValueChange={setAssigneeId}>
+                <SelectTrigger id="bulk-assignee">
+                  <SelectValue placeholder="Choose a staff member" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {staff.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>{member.full_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {action === "tag" && (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-tag">Tag</Label>
+              <Input
+                id="bulk-tag"
+                value={tag}
+                onChange={(e) => setTag(e.target.value)}
+                maxLength={30}
+                placeholder="e.g. duplicate"
+              />
+              <p className="text-xs text-muted-foreground">Tags are only visible to staff.</p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={submitting || !canSubmit}>
+              {submitting ? "Applying..." : `Apply to ${count}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
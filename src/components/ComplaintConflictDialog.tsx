@@ -0,0 +1,78 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { StatusBadge } from "@/components/StatusBadge";
+import { Complaint, ComplaintStatus } from "@/lib/types";
+import { format } from "date-fns";
+
+interface ComplaintConflictDialogProps {
+  theirs: Complaint | null;
+  mine: { status: ComplaintStatus; note: string };
+  changedBy?: string | null;
+  onUseTheirs: () => void;
+  onKeepMine: () => void;
+}
+
+export const ComplaintConflictDialog = ({
+  theirs,
+  mine,
+  changedBy,
+  onUseTheirs,
+  onKeepMine,
+}: ComplaintConflictDialogProps) => {
+  const noteDiffers = !!theirs && (theirs.admin_note || "") !== mine.note.trim();
+
+  return (
+    <Dialog open={!!theirs} onOpenChange={(open) => !open && onKeepMine()}>
+      <DialogContent className="max-w-2xl">
+        {theirs && (
+          <>
+            <DialogHeader>
+              <DialogTitle>This complaint was changed while you were editing</DialogTitle>
+              <DialogDescription>
+                {changedBy ? `${changedBy} saved` : "Someone else saved"} changes on{" "}
+                {format(new Date(theirs.updated_at), "PPp")}. Your edits have not been saved.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2 rounded-lg border p-3">
+                <h4 className="text-sm font-semibold">Their version</h4>
+                <StatusBadge status={theirs.status} />
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                  {theirs.admin_note || <span className="italic">No admin note</span>}
+                </p>
+              </div>
+              <div className="space-y-2 rounded-lg border border-primary/40 p-3">
+                <h4 className="text-sm font-semibold">Your edits</h4>
+                <StatusBadge status={mine.status} />
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                  {mine.note.trim() || <span className="italic">No admin note</span>}
+                </p>
+              </div>
+            </div>
+
+            {noteDiffers && (
+              <p className="text-xs text-muted-foreground">
+                Keeping your edits puts them on top of the latest version so you can adjust the note and save again.
+              </p>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={onUseTheirs}>
+                Discard mine, use theirs
+              </Button>
+              <Button onClick={onKeepMine}>Keep my edits</Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
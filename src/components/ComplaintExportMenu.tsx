@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { ComplaintListFilters } from "@/lib/complaintFilters";
+import { ComplaintExportFormat, downloadFile, exportFilename, fetchComplaintExport } from "@/lib/complaintExport";
+import { Download, FileSpreadsheet, FileText } from "lucide-react";
+
+interface ComplaintExportMenuProps {
+  filters: ComplaintListFilters;
+  totalCount: number;
+}
+
+// Exports the whole filtered list, not just the current page
+export function ComplaintExportMenu({ filters, totalCount }: ComplaintExportMenuProps) {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (exportFormat: ComplaintExportFormat) => {
+    setExporting(true);
+    try {
+      const file = await fetchComplaintExport(filters, exportFormat);
+      downloadFile(file, exportFilename(exportFormat), file.type);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: (error as Error).message || "Could not export the complaints.",
+      });
+    }
+    setExporting(false);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={exporting || totalCount === 0}>
+          <Download className="mr-2 h-4 w-4" />
+          {exporting ? "Exporting..." : "Export"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>
+          Export {totalCount} {totalCount === 1 ? "complaint" : "complaints"}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => handleExport("csv")}>
+          <FileText className="mr-2 h-4 w-4" />
+          CSV (.csv)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport("xlsx")}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          Excel (.xlsx)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { ComplaintMessage } from "@/lib/types";
+import { useComplaintActivity } from "@/hooks/use-complaint-activity";
+import { fromAdminMessageRow } from "@/lib/adminComplaints";
+import { cn } from "@/lib/utils";
+import { MessageSquare, Send } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+
+interface ComplaintThreadProps {
+  complaintId: string;
+  viewer: "student" | "admin";
+}
+
+export const ComplaintThread = ({ complaintId, viewer }: ComplaintThreadProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [messages, setMessages] = useState<ComplaintMessage[]>([]);
+  const [body, setBody] = useState("");
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [complaintId]);
+
+  const fetchMessages = async () => {
+    if (viewer === "admin") {
+      // Staff read through the masked view so anonymous students stay hidden
+      const { data, error } = await supabase
+        .from("admin_complaint_messages")
+        .select("*")
+        .eq("complaint_id", complaintId)
+        .order("created_at", { ascending: true });
+
+      if (!error && data) {
+        setMessages(data.map(fromAdminMessageRow));
+      }
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("complaint_messages")
+      .select(`
+        *,
+        author:author_user_id (
+          id,
+          full_name
+        )
+      `)
+      .eq("complaint_id", complaintId)
+      .order("created_at", { ascending: true });
+
+    if (!error && data) {
+      setMessages(data as ComplaintMessage[]);
+    }
+  };
+
+  useComplaintActivity(
+    `thread:${complaintId}`,
+    (activity) => {
+      if (activity.source === "complaint_messages") fetchMessages();
+    },
+    { complaintId }
+  );
+
+  const handleSend = async () => {
+    if (!user || !body.trim()) return;
+
+    setSending(true);
+
+    const { error } = await supabase.from("complaint_messages").insert({
+      complaint_id: complaintId,
+      author_user_id: user.id,
+      is_staff: viewer === "admin",
+      body: body.trim(),
+    });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Message not sent",
+        description: error.message || "Failed to send message.",
+      });
+    } else {
+      setBody("");
+      fetchMessages();
+    }
+    setSending(false);
+  };
+
+  const authorLabel = (message: ComplaintMessage) => {
+    if (message.author_user_id && message.author_user_id === user?.id) return "You";
+    if (message.is_staff) {
+      return viewer === "admin" && message.author?.full_name ? message.author.full_name : "Staff";
+    }
+    return viewer === "admin" && message.author?.full_name ? message.author.full_name : "Student";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">Conversation</CardTitle>
+        <CardDescription>
+          {viewer === "admin"
+            ? "Ask the student for details or share updates"
+            : "Reply to staff with clarifications or more details"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {messages.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-6 text-center text-sm text-muted-foreground">
+            <MessageSquare className="h-8 w-8" />
+            <p>No messages yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {messages.map((message) => (
+              <div
+                key={message.id}
+                className={cn(
+                  "rounded-lg border p-3",
+                  message.is_staff ? "bg-secondary/30" : "bg-card"
+                )}
+              >
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <span className="text-sm font-medium">
+                    {authorLabel(message)}
+                    {message.is_staff && viewer === "admin" && (
+                      <span className="ml-2 text-xs text-muted-foreground">Staff</span>
+                    )}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(message.created_at), "PPp")}
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                  {message.body}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Textarea
+            placeholder={viewer === "admin" ? "Write a message to the student..." : "Write a reply..."}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            disabled={sending}
+            rows={3}
+            maxLength={5000}
+          />
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">
+              {body.length}/5000 characters
+            </p>
+            <Button size="sm" onClick={handleSend} disabled={!body.trim() || sending}>
+              <Send className="mr-2 h-4 w-4" />
+              {sending ? "Sending..." : "Send"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ComplaintDateField, toDayParam } from "@/lib/complaintFilters";
+import { cn } from "@/lib/utils";
+import { CalendarDays } from "lucide-react";
+import { format, parseISO } from "date-fns";
+
+interface DateRangeFilterProps {
+  // Omit to hide the submitted/updated picker
+  field?: ComplaintDateField;
+  from: string | null;
+  to: string | null;
+  onChange: (changes: { dateField?: ComplaintDateField; dateFrom?: string | null; dateTo?: string | null }) => void;
+}
+
+const FIELD_LABELS: Record<ComplaintDateField, string> = {
+  created: "Submitted",
+  updated: "Updated",
+};
+
+export function DateRangeFilter({ field, from, to, onChange }: DateRangeFilterProps) {
+  const [open, setOpen] = useState(false);
+  const selected: DateRange | undefined = from ? { from: parseISO(from), to: to ? parseISO(to) : undefined } : undefined;
+
+  const label = !from
+    ? "Any date"
+    : !to || from === to
+      ? format(parseISO(from), "MMM d, yyyy")
+      : `${format(parseISO(from), "MMM d")} – ${format(parseISO(to), "MMM d, yyyy")}`;
+
+  const handleSelect = (range: DateRange | undefined) => {
+    onChange({
+      dateFrom: range?.from ? toDayParam(range.from) : null,
+      dateTo: range?.to ? toDayParam(range.to) : range?.from ? toDayParam(range.from) : null,
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={cn("justify-start font-normal", !from && "text-muted-foreground")}>
+          <CalendarDays className="mr-2 h-4 w-4" />
+          <span className="truncate">
+            {from && field ? `${FIELD_LABELS[field]}: ${label}` : label}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <div className="flex items-center justify-between gap-2 border-b p-3">
+          {field && (
+            <Select value={field} onValueChange={(value) => onChange({ dateField: value as ComplaintDateField })}>
+              <SelectTrigger className="h-8 w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="created">Submitted</SelectItem>
+                <SelectItem value="updated">Last updated</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto"
+            disabled={!from}
+            onClick={() => {
+              onChange({ dateFrom: null, dateTo: null });
+              setOpen(false);
+            }}
+          >
+            Clear
+          </Button>
+        </div>
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          selected={selected}
+          onSelect={handleSelect}
+          defaultMonth={selected?.from}
+          disabled={{ after: new Date() }}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
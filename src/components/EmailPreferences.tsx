@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Mail } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+export const EmailPreferences = () => {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [onStatusChange, setOnStatusChange] = useState(true);
+  const [onNewComplaint, setOnNewComplaint] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const isAdmin = profile?.role === "admin";
+
+  useEffect(() => {
+    if (open && user) {
+      fetchPreferences();
+    }
+  }, [open, user]);
+
+  const fetchPreferences = async () => {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("email_on_status_change, email_on_new_complaint")
+      .eq("id", user!.id)
+      .single();
+
+    if (!error && data) {
+      setOnStatusChange(data.email_on_status_change);
+      setOnNewComplaint(data.email_on_new_complaint);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    setSaving(true);
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({
+        email_on_status_change: onStatusChange,
+        email_on_new_complaint: onNewComplaint,
+      })
+      .eq("id", user.id);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Save failed",
+        description: error.message || "Failed to save email preferences.",
+      });
+    } else {
+      toast({
+        title: "Preferences saved",
+        description: "Your email preferences have been updated.",
+      });
+      setOpen(false);
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" aria-label="Email preferences">
+          <Mail className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Email preferences</DialogTitle>
+          <DialogDescription>
+            Choose which updates are sent to {profile?.email}. In-app notifications are always on.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {!isAdmin && (
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="email-status-change">When the status of my complaint changes</Label>
+              <Switch
+                id="email-status-change"
+                checked={onStatusChange}
+                onCheckedChange={setOnStatusChange}
+                disabled={saving}
+              />
+            </div>
+          )}
+          {isAdmin && (
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="email-new-complaint">When a new complaint arrives in my categories</Label>
+              <Switch
+                id="email-new-complaint"
+                checked={onNewComplaint}
+                onCheckedChange={setOnNewComplaint}
+                disabled={saving}
+              />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Profile } from "@/lib/types";
+import { describeComplaintError } from "@/lib/complaintErrors";
+import { Eye } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface IdentityRevealProps {
+  complaintId: string;
+  onRevealed: (student: Pick<Profile, "id" | "full_name" | "email">) => void;
+}
+
+export const IdentityReveal = ({ complaintId, onRevealed }: IdentityRevealProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleReveal = async () => {
+    if (!reason.trim()) return;
+
+    setSubmitting(true);
+
+    const { data, error } = await supabase.rpc("reveal_complaint_identity", {
+      _complaint_id: complaintId,
+      _reason: reason.trim(),
+    });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        ...describeComplaintError(error, "Could not reveal identity", "Failed to reveal the student's identity."),
+      });
+    } else if (data && data.length > 0) {
+      onRevealed({ id: data[0].student_id, full_name: data[0].full_name, email: data[0].email });
+      setOpen(false);
+      setReason("");
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Eye className="mr-2 h-4 w-4" />
+          Reveal identity
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reveal student identity</DialogTitle>
+          <DialogDescription>
+            This student filed anonymously. Your name, the time and your reason are recorded in the reveal log.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="reveal-reason">
+            Reason <span className="text-destructive">*</span>
+          </Label>
+          <Textarea
+            id="reveal-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            disabled={submitting}
+            rows={4}
+            maxLength={1000}
+          />
+          <p className="text-xs text-muted-foreground">
+            {reason.length}/1000 characters
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleReveal} disabled={!reason.trim() || submitting}>
+            {submitting ? "Revealing..." : "Reveal identity"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
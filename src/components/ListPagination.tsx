@@ -0,0 +1,76 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { cn } from "@/lib/utils";
+
+interface ListPaginationProps {
+  page: number;
+  pageCount: number;
+  hrefFor: (page: number) => string;
+  onPageChange: (page: number) => void;
+}
+
+// First, last and the pages around the current one, with gaps marked as null
+const visiblePages = (page: number, pageCount: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 1) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+export function ListPagination({ page, pageCount, hrefFor, onPageChange }: ListPaginationProps) {
+  if (pageCount <= 1) return null;
+
+  const link = (target: number) => ({
+    href: hrefFor(target),
+    onClick: (e: React.MouseEvent) => {
+      e.preventDefault();
+      onPageChange(target);
+    },
+  });
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            {...link(Math.max(1, page - 1))}
+            aria-disabled={page === 1}
+            className={cn(page === 1 && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+        {visiblePages(page, pageCount).map((p, index) =>
+          p === null ? (
+            <PaginationItem key={`gap-${index}`}>
+              <PaginationEllipsis />
+            </PaginationItem>
+          ) : (
+            <PaginationItem key={p}>
+              <PaginationLink {...link(p)} isActive={p === page}>
+                {p}
+              </PaginationLink>
+            </PaginationItem>
+          )
+        )}
+        <PaginationItem>
+          <PaginationNext
+            {...link(Math.min(pageCount, page + 1))}
+            aria-disabled={page === pageCount}
+            className={cn(page === pageCount && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
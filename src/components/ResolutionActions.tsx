@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Complaint } from "@/lib/types";
+import { describeComplaintError } from "@/lib/complaintErrors";
+import { CheckCircle2, RotateCcw } from "lucide-react";
+import { addDays, format, isAfter } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+
+interface ResolutionActionsProps {
+  complaint: Complaint;
+  onUpdated: () => void;
+}
+
+export const ResolutionActions = ({ complaint, onUpdated }: ResolutionActionsProps) => {
+  const { toast } = useToast();
+  const [windowDays, setWindowDays] = useState<number | null>(null);
+  const [reopenOpen, setReopenOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    const { data, error } = await supabase
+      .from("complaint_settings")
+      .select("reopen_window_days")
+      .single();
+
+    if (!error && data) {
+      setWindowDays(data.reopen_window_days);
+    }
+  };
+
+  if (complaint.resolution_confirmed_at) {
+    return (
+      <div className="rounded-lg border bg-secondary/30 p-4 text-sm text-muted-foreground flex items-center gap-2">
+        <CheckCircle2 className="h-4 w-4 text-status-resolved" />
+        You confirmed this complaint as resolved on {format(new Date(complaint.resolution_confirmed_at), "PPp")}
+      </div>
+    );
+  }
+
+  if (complaint.status !== "resolved") return null;
+
+  const reopenDeadline =
+    complaint.resolved_at && windowDays !== null
+      ? addDays(new Date(complaint.resolved_at), windowDays)
+      : null;
+  const canReopen = !reopenDeadline || isAfter(reopenDeadline, new Date());
+
+  const handleReopen = async () => {
+    if (!reason.trim()) return;
+
+    setSubmitting(true);
+
+    const { error } = await supabase.rpc("reopen_complaint", {
+      _complaint_id: complaint.id,
+      _reason: reason.trim(),
+    });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        ...describeComplaintError(error, "Could not reopen", "Failed to reopen complaint."),
+      });
+    } else {
+      toast({
+        title: "Complaint reopened",
+        description: "Staff have been asked to take another look.",
+      });
+      setReopenOpen(false);
+      setReason("");
+      onUpdated();
+    }
+    setSubmitting(false);
+  };
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+
+    const { error } = await supabase.rpc("confirm_complaint_resolution", {
+      _complaint_id: complaint.id,
+    });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        ...describeComplaintError(error, "Could not confirm", "Failed to confirm resolution."),
+      });
+    } else {
+      toast({
+        title: "Thanks for confirming",
+        description: "This complaint is now closed for good.",
+      });
+      onUpdated();
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold">Is your issue resolved?</h3>
+        <p className="text-sm text-muted-foreground">
+          {canReopen
+            ? reopenDeadline
+              ? `You can reopen this complaint until ${format(reopenDeadline, "PPp")}.`
+              : "Let us know if the resolution did not fix your issue."
+            : "The window to reopen this complaint has passed."}
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button size="sm" disabled={submitting}>
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+              Confirm resolved
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Confirm resolution?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Once confirmed, this complaint is locked and can no longer be reopened.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleConfirm}>Confirm</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {canReopen && (
+          <Dialog open={reopenOpen} onOpenChange={setReopenOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" variant="outline" disabled={submitting}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                This is not resolved
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Reopen complaint</DialogTitle>
+                <DialogDescription>
+                  Tell staff why the issue is not resolved. Your reason is recorded in the status history.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="reopen-reason">
+                  Reason <span className="text-destructive">*</span>
+                </Label>
+                <Textarea
+                  id="reopen-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  disabled={submitting}
+                  rows={4}
+                  maxLength={5000}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {reason.length}/5000 characters
+                </p>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setReopenOpen(false)} disabled={submitting}>
+                  Cancel
+                </Button>
+                <Button onClick={handleReopen} disabled={!reason.trim() || submitting}>
+                  {submitting ? "Reopening..." : "Reopen complaint"}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useSavedViews } from "@/hooks/use-saved-views";
+import { useStaffMembers } from "@/hooks/use-staff";
+import { SavedView } from "@/lib/types";
+import {
+  ComplaintListFilters,
+  DEFAULT_COMPLAINT_FILTERS,
+  matchesSavedView,
+  toSavedViewFilters,
+} from "@/lib/complaintFilters";
+import { cn } from "@/lib/utils";
+import { Bookmark, Pin, PinOff, Save, Settings2, Star, Trash2, Users } from "lucide-react";
+
+interface SavedViewTabsProps {
+  savedViews: ReturnType<typeof useSavedViews>;
+  filters: ComplaintListFilters;
+  onApply: (filters: Record<string, string>) => void;
+}
+
+const ALL_TAB = "all";
+
+export function SavedViewTabs({ savedViews, filters, onApply }: SavedViewTabsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { staff } = useStaffMembers();
+  const { views, createView, updateView, deleteView, setPinned, setDefault } = savedViews;
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [manageOpen, setManageOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isShared, setIsShared] = useState(false);
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [saving, setSaving] = useState(false);
+  // The view last opened from a tab, so edits to it can be saved back
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+
+  const pinnedViews = views.filter((v) => v.pinned);
+  const matchingView = pinnedViews.find((v) => matchesSavedView(filters, v.filters));
+  const isUnfiltered = matchesSavedView(filters, {});
+  const activeView = views.find((v) => v.id === activeViewId);
+  const canUpdateActive =
+    activeView && activeView.owner_id === user?.id && !matchesSavedView(filters, activeView.filters);
+  const tabValue = matchingView?.id ?? (isUnfiltered ? ALL_TAB : "");
+
+  const ownerName = (view: SavedView) =>
+    view.owner_id === user?.id ? "You" : staff.find((s) => s.id === view.owner_id)?.full_name || "Another admin";
+
+  const reportError = (title: string, error: { message?: string } | null) => {
+    if (error) {
+      toast({ variant: "destructive", title, description: error.message || "Please try again." });
+    }
+    return !error;
+  };
+
+  const handleTabChange = (value: string) => {
+    if (value === ALL_TAB) {
+      setActiveViewId(null);
+      onApply(toSavedViewFilters(DEFAULT_COMPLAINT_FILTERS));
+      return;
+    }
+    const view = views.find((v) => v.id === value);
+    if (view) {
+      setActiveViewId(view.id);
+      onApply(view.filters);
+    }
+  };
+
+  const openSaveDialog = () => {
+    setName("");
+    setIsShared(false);
+    setMakeDefault(false);
+    setSaveOpen(true);
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+
+    setSaving(true);
+    const { id, error } = await createView(name, toSavedViewFilters(filters), isShared);
+    if (reportError("Could not save view", error) && id) {
+      if (makeDefault) {
+        reportError("Could not set default view", (await setDefault(id)).error);
+      }
+      setActiveViewId(id);
+      setSaveOpen(false);
+      toast({ title: "View saved", description: `"${name.trim()}" is now pinned above the list.` });
+    }
+    setSaving(false);
+  };
+
+  const handleUpdateActive = async () => {
+    if (!activeView) return;
+
+    const { error } = await updateView(activeView.id, { filters: toSavedViewFilters(filters) });
+    if (reportError("Could not update view", error)) {
+      toast({ title: "View updated", description: `"${activeView.name}" now uses the current filters.` });
+    }
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    const { error } = await deleteView(view.id);
+    if (reportError("Could not delete view", error) && view.id === activeViewId) {
+      setActiveViewId(null);
+    }
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+      <Tabs value={tabValue} onValueChange={handleTabChange} className="max-w-full overflow-x-auto">
+        <TabsList>
+          <TabsTrigger value={ALL_TAB}>All complaints</TabsTrigger>
+          {pinnedViews.map((view) => (
+            <TabsTrigger key={view.id} value={view.id} className="gap-1">
+              {view.is_default && <Star className="h-3 w-3 fill-current" />}
+              {view.is_shared && view.owner_id !== user?.id && <Users className="h-3 w-3" />}
+              {view.name}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <div className="flex gap-2">
+        {canUpdateActive && (
+          <Button variant="outline" size="sm" onClick={handleUpdateActive}>
+            <Save className="mr-2 h-4 w-4" />
+            Update "{activeView.name}"
+          </Button>
+        )}
+        {!matchingView && !isUnfiltered && (
+          <Button variant="outline" size="sm" onClick={openSaveDialog}>
+            <Bookmark className="mr-2 h-4 w-4" />
+            Save view
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={() => setManageOpen(true)}>
+          <Settings2 className="mr-2 h-4 w-4" />
+          Views
+        </Button>
+      </div>
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+            <DialogDescription>
+              Saves the current search, filters and sort order as a tab above the list.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={60}
+                placeholder="e.g. My overdue mentor complaints"
+                autoFocus
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="view-shared">Share with all admins</Label>
+              <Switch id="view-shared" checked={isShared} onCheckedChange={setIsShared} disabled={saving} />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="view-default">Open this view when I visit the dashboard</Label>
+              <Switch id="view-default" checked={makeDefault} onCheckedChange={setMakeDefault} disabled={saving} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || !name.trim()}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={manageOpen} onOpenChange={setManageOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Saved views</DialogTitle>
+            <DialogDescription>
+              Pin views to show them as tabs. The starred view opens when you visit the dashboard.
+            </DialogDescription>
+          </DialogHeader>
+          {views.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No saved views yet. Filter the list and choose "Save view".
+            </p>
+          ) : (
+            <div className="max-h-96 divide-y overflow-y-auto">
+              {views.map((view) => {
+                const isOwner = view.owner_id === user?.id;
+                return (
+                  <div key={view.id} className="flex items-center gap-2 py-2">
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium">{view.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {ownerName(view)}
+                        {view.is_shared && (
+                          <Badge variant="secondary" className="ml-2 px-1.5 py-0 text-[10px]">
+                            Shared
+                          </Badge>
+                        )}
+                      </p>
+                    </div>
+                    {isOwner && (
+                      <Switch
+                        checked={view.is_shared}
+                        onCheckedChange={async (checked) =>
+                          reportError("Could not update view", (await updateView(view.id, { is_shared: checked })).error)
+                        }
+                        aria-label={`Share ${view.name} with all admins`}
+                      />
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={view.is_default ? "Remove as default view" : "Make default view"}
+                      onClick={async () =>
+                        reportError("Could not set default view", (await setDefault(view.is_default ? null : view.id)).error)
+                      }
+                    >
+                      <Star className={cn("h-4 w-4", view.is_default && "fill-current text-yellow-500")} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={view.pinned ? "Unpin view" : "Pin view"}
+                      onClick={async () =>
+                        reportError("Could not update view", (await setPinned(view.id, !view.pinned)).error)
+                      }
+                    >
+                      {view.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                    </Button>
+                    {isOwner && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label="Delete view">
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete "{view.name}"?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {view.is_shared
+                                ? "The view is removed for every admin it is shared with."
+                                : "The view is removed from your tabs."}
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(view)}>Delete</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { Fragment } from "react";
+
+interface SearchHighlightProps {
+  text: string;
+}
+
+// Renders search_admin_complaints headlines, where matches are wrapped in
+// <mark>…</mark>. The markers are split out and everything else is rendered
+// as plain text, so complaint content is never interpreted as HTML.
+export function SearchHighlight({ text }: SearchHighlightProps) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/gs);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,39 @@
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Complaint } from "@/lib/types";
+import { SlaState, getSlaStatus } from "@/lib/sla";
+import { cn } from "@/lib/utils";
+import { format } from "date-fns";
+
+interface SlaIndicatorProps {
+  complaint: Complaint;
+  className?: string;
+}
+
+const stateClassNames: Record<SlaState, string> = {
+  on_track: "border-status-resolved text-status-resolved",
+  at_risk: "border-status-waiting bg-status-waiting/10 text-status-waiting",
+  breached: "border-destructive bg-destructive text-destructive-foreground",
+  met: "border-border text-muted-foreground",
+};
+
+export const SlaIndicator = ({ complaint, className }: SlaIndicatorProps) => {
+  const sla = getSlaStatus(complaint);
+  if (!sla) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant="outline"
+          className={cn("whitespace-nowrap font-medium", stateClassNames[sla.state], className)}
+        >
+          {sla.label}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        {sla.target === "first_response" ? "First response" : "Resolution"} target: {format(sla.dueAt, "PPp")}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
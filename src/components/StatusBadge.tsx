@@ -1,41 +1,35 @@
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
-
-type ComplaintStatus = "open" | "in_progress" | "resolved";
+import { ComplaintStatus } from "@/lib/types";
+import { STATUS_LABELS } from "@/lib/status";
 
 interface StatusBadgeProps {
   status: ComplaintStatus;
   className?: string;
 }
 
-const statusConfig = {
-  open: {
-    label: "Open",
-    className: "bg-status-open text-status-open-foreground border-status-open",
-  },
-  in_progress: {
-    label: "In Progress",
-    className: "bg-status-in-progress text-status-in-progress-foreground border-status-in-progress",
-  },
-  resolved: {
-    label: "Resolved",
-    className: "bg-status-resolved text-status-resolved-foreground border-status-resolved",
-  },
+const statusClassNames: Record<ComplaintStatus, string> = {
+  open: "bg-status-open text-status-open-foreground border-status-open",
+  triaged: "bg-status-triaged text-status-triaged-foreground border-status-triaged",
+  in_progress: "bg-status-in-progress text-status-in-progress-foreground border-status-in-progress",
+  waiting_on_student: "bg-status-waiting text-status-waiting-foreground border-status-waiting",
+  escalated: "bg-status-escalated text-status-escalated-foreground border-status-escalated",
+  resolved: "bg-status-resolved text-status-resolved-foreground border-status-resolved",
+  rejected: "bg-status-rejected text-status-rejected-foreground border-status-rejected",
+  closed: "bg-status-closed text-status-closed-foreground border-status-closed",
 };
 
 export const StatusBadge = ({ status, className }: StatusBadgeProps) => {
-  const config = statusConfig[status];
-  
   return (
     <Badge
       variant="outline"
       className={cn(
         "font-medium transition-colors",
-        config.className,
+        statusClassNames[status],
         className
       )}
     >
-      {config.label}
+      {STATUS_LABELS[status]}
     </Badge>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,115 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { StatusBadge } from "@/components/StatusBadge";
+import { ComplaintStatusHistory } from "@/lib/types";
+import { useAuth } from "@/lib/auth";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ArrowRight, Clock, Paperclip, Route, Tag, UserCheck } from "lucide-react";
+import { format } from "date-fns";
+
+interface StatusTimelineProps {
+  history: ComplaintStatusHistory[];
+  viewer: "student" | "admin";
+  staffNames?: Record<string, string>;
+}
+
+export const StatusTimeline = ({ history, viewer, staffNames = {} }: StatusTimelineProps) => {
+  const { user } = useAuth();
+
+  // Students follow status changes and uploads; staff also see handoffs
+  const entries = viewer === "admin"
+    ? history
+    : history.filter((entry) => entry.event_type === "status_change" || entry.event_type === "attachment");
+
+  if (entries.length === 0) return null;
+
+  const staffName = (userId: string | null) =>
+    userId ? staffNames[userId] || "a staff member" : null;
+
+  const assignmentText = (entry: ComplaintStatusHistory) => {
+    const to = staffName(entry.to_assignee);
+    const from = staffName(entry.from_assignee);
+    if (!to) return from ? `Unassigned from ${from}` : "Unassigned";
+    return from ? `Reassigned from ${from} to ${to}` : `Assigned to ${to}`;
+  };
+
+  const attachmentText = (entry: ComplaintStatusHistory) => {
+    if (entry.changed_by_user_id && entry.changed_by_user_id === user?.id) return "You added an attachment";
+    const uploader = entry.changed_by_user_id ? staffNames[entry.changed_by_user_id] : null;
+    if (uploader) return `${uploader} added an attachment`;
+    return viewer === "admin" ? "Student added an attachment" : "Staff added an attachment";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">Status History</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {entries.map((entry, index) => (
+            <div key={entry.id} className="flex gap-4">
+              <div className="flex flex-col items-center">
+                <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary/10">
+                  {entry.event_type === "assignment" ? (
+                    <UserCheck className="h-4 w-4 text-primary" />
+                  ) : entry.event_type === "routing" ? (
+                    <Route className="h-4 w-4 text-primary" />
+                  ) : entry.event_type === "sla_breach" ? (
+                    <AlertTriangle className="h-4 w-4 text-destructive" />
+                  ) : entry.event_type === "attachment" ? (
+                    <Paperclip className="h-4 w-4 text-primary" />
+                  ) : entry.event_type === "tag" ? (
+                    <Tag className="h-4 w-4 text-primary" />
+                  ) : (
+                    <Clock className="h-4 w-4 text-primary" />
+                  )}
+                </div>
+                {index < entries.length - 1 && (
+                  <div className="h-full w-px bg-border mt-2" />
+                )}
+              </div>
+              <div className="flex-1 pb-4">
+                <div className="flex flex-wrap items-center gap-2 mb-1">
+                  {entry.event_type === "assignment" ? (
+                    <span className="text-sm font-medium">{assignmentText(entry)}</span>
+                  ) : entry.event_type === "routing" ? (
+                    <span className="text-sm font-medium">
+                      {entry.to_assignee ? `Auto-assigned to ${staffName(entry.to_assignee)}` : "Routed"}
+                    </span>
+                  ) : entry.event_type === "sla_breach" ? (
+                    <span className="text-sm font-medium text-destructive">SLA breached</span>
+                  ) : entry.event_type === "attachment" ? (
+                    <span className="text-sm font-medium">{attachmentText(entry)}</span>
+                  ) : entry.event_type === "tag" ? (
+                    <span className="flex items-center gap-1 text-sm font-medium">
+                      Tagged by {staffName(entry.changed_by_user_id)}
+                      <Badge variant="secondary">{entry.note_snapshot}</Badge>
+                    </span>
+                  ) : (
+                    <>
+                      {entry.from_status && (
+                        <>
+                          <StatusBadge status={entry.from_status} className="opacity-60" />
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                        </>
+                      )}
+                      <StatusBadge status={entry.to_status} />
+                    </>
+                  )}
+                  <span className="text-sm text-muted-foreground">
+                    {format(new Date(entry.changed_at), "PPp")}
+                  </span>
+                </div>
+                {entry.note_snapshot && entry.event_type !== "tag" && (
+                  <p className="text-sm text-muted-foreground mt-2">
+                    {entry.note_snapshot}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
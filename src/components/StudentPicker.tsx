@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Profile } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { Check, User, X } from "lucide-react";
+
+type StudentOption = Pick<Profile, "id" | "full_name" | "email">;
+
+interface StudentPickerProps {
+  value: string | null;
+  onChange: (studentId: string | null) => void;
+}
+
+// Drops characters that would break PostgREST's or=() syntax or act as wildcards
+const toIlikePattern = (term: string) => `%${term.replace(/[%*,()"\\]/g, "")}%`;
+
+// Picks a single student by name or email. Anonymous complaints never match a
+// student filter because the admin views hide their student.
+export function StudentPicker({ value, onChange }: StudentPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [term, setTerm] = useState("");
+  const [options, setOptions] = useState<StudentOption[]>([]);
+  const [selected, setSelected] = useState<StudentOption | null>(null);
+
+  // Resolve the name for a student id that came from the URL
+  useEffect(() => {
+    if (!value) {
+      setSelected(null);
+    } else if (selected?.id !== value) {
+      fetchSelected(value);
+    }
+  }, [value]);
+
+  useEffect(() => {
+    if (!open) return;
+    const timeout = setTimeout(() => fetchOptions(term.trim()), 250);
+    return () => clearTimeout(timeout);
+  }, [open, term]);
+
+  const fetchSelected = async (id: string) => {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("id, full_name, email")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (!error && data) {
+      setSelected(data);
+    }
+  };
+
+  const fetchOptions = async (search: string) => {
+    let query = supabase
+      .from("profiles")
+      .select("id, full_name, email")
+      .order("full_name", { ascending: true })
+      .limit(10);
+
+    if (search) {
+      const pattern = toIlikePattern(search);
+      query = query.or(`full_name.ilike.${pattern},email.ilike.${pattern}`);
+    }
+
+    const { data, error } = await query;
+    if (!error && data) {
+      setOptions(data);
+    }
+  };
+
+  const handleSelect = (option: StudentOption) => {
+    setSelected(option);
+    onChange(option.id);
+    setOpen(false);
+  };
+
+  return (
+    <div className="flex min-w-0 gap-1">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={cn("min-w-0 flex-1 justify-start font-normal", !value && "text-muted-foreground")}
+          >
+            <User className="mr-2 h-4 w-4 shrink-0" />
+            <span className="truncate">{value ? selected?.full_name || "Selected student" : "Any student"}</span>
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 p-0" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput placeholder="Search by name or email..." value={term} onValueChange={setTerm} />
+            <CommandList>
+              <CommandEmpty>No students found</CommandEmpty>
+              <CommandGroup>
+                {options.map((option) => (
+                  <CommandItem key={option.id} value={option.id} onSelect={() => handleSelect(option)}>
+                    <Check className={cn("mr-2 h-4 w-4", option.id === value ? "opacity-100" : "opacity-0")} />
+                    <div className="min-w-0">
+                      <div className="truncate">{option.full_name}</div>
+                      <div className="truncate text-xs text-muted-foreground">{option.email}</div>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {value && (
+        <Button variant="ghost" size="icon" aria-label="Clear student filter" onClick={() => onChange(null)}>
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { ComplaintActivity } from "@/lib/types";
+
+interface ComplaintActivityOptions {
+  complaintId?: string;
+  enabled?: boolean;
+}
+
+// Listens to the complaint_activity change feed, which is touched whenever a
+// complaint, its history, messages or attachments change. Callers refetch
+// through their normal queries so RLS and the masked admin views still apply.
+// channelKey must be unique among the subscriptions mounted at the same time.
+export function useComplaintActivity(
+  channelKey: string,
+  onActivity: (activity: ComplaintActivity) => void,
+  { complaintId, enabled = true }: ComplaintActivityOptions = {}
+) {
+  const handlerRef = useRef(onActivity);
+  handlerRef.current = onActivity;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const channel = supabase
+      .channel(`complaint-activity:${channelKey}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "complaint_activity",
+          ...(complaintId ? { filter: `complaint_id=eq.${complaintId}` } : {}),
+        },
+        (payload) => {
+          if (payload.new && "complaint_id" in payload.new) {
+            handlerRef.current(payload.new as ComplaintActivity);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [channelKey, complaintId, enabled]);
+}
+
+// Tracks ids that changed recently so lists can highlight them briefly
+export function useRecentlyUpdated(durationMs = 5000) {
+  const [recent, setRecent] = useState<Record<string, number>>({});
+  const timers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => Object.values(pending).forEach(clearTimeout);
+  }, []);
+
+  const markUpdated = useCallback(
+    (id: string) => {
+      clearTimeout(timers.current[id]);
+      setRecent((prev) => ({ ...prev, [id]: Date.now() }));
+      timers.current[id] = setTimeout(() => {
+        setRecent((prev) => {
+          const next = { ...prev };
+          delete next[id];
+          return next;
+        });
+        delete timers.current[id];
+      }, durationMs);
+    },
+    [durationMs]
+  );
+
+  const isRecent = useCallback((id: string) => id in recent, [recent]);
+
+  return { isRecent, markUpdated };
+}
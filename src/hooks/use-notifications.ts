@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { Notification } from "@/lib/types";
+
+// Loads the signed-in user's notifications and keeps them live
+export function useNotifications(limit = 20) {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!user) return;
+
+    const [{ data, error }, { count }] = await Promise.all([
+      supabase
+        .from("notifications")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(limit),
+      supabase
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id)
+        .is("read_at", null),
+    ]);
+
+    if (!error && data) {
+      setNotifications(data as Notification[]);
+    }
+    setUnreadCount(count ?? 0);
+    setLoading(false);
+  }, [user, limit]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchNotifications();
+
+    const channel = supabase
+      .channel(`notifications:${user.id}:${limit}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "notifications", filter: `user_id=eq.${user.id}` },
+        () => fetchNotifications()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, limit, fetchNotifications]);
+
+  const markRead = async (id: string) => {
+    const readAt = new Date().toISOString();
+    setNotifications((prev) => prev.map((n) => (n.id === id && !n.read_at ? { ...n, read_at: readAt } : n)));
+    setUnreadCount((prev) =>
+      notifications.some((n) => n.id === id && !n.read_at) ? Math.max(prev - 1, 0) : prev
+    );
+
+    await supabase.from("notifications").update({ read_at: readAt }).eq("id", id).is("read_at", null);
+  };
+
+  const markAllRead = async () => {
+    if (!user) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications((prev) => prev.map((n) => (n.read_at ? n : { ...n, read_at: readAt })));
+    setUnreadCount(0);
+
+    await supabase
+      .from("notifications")
+      .update({ read_at: readAt })
+      .eq("user_id", user.id)
+      .is("read_at", null);
+  };
+
+  return { notifications, unreadCount, loading, markRead, markAllRead };
+}
+
+// Where a notification leads depends on which side of the app the user is on
+export function useOpenNotification() {
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+
+  return (notification: Notification) => {
+    if (!notification.complaint_id) return;
+    const base = profile?.role === "admin" ? "/admin/complaint" : "/student/complaint";
+    navigate(`${base}/${notification.complaint_id}`);
+  };
+}
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { SavedView } from "@/lib/types";
+
+type SavedViewChanges = Partial<Pick<SavedView, "name" | "filters" | "is_shared">>;
+
+// Loads the admin's own and shared saved views, merged with the admin's pins
+// and default choice. Mutations return the Supabase error, if any, so callers
+// can toast it.
+export function useSavedViews(enabled = true) {
+  const { user } = useAuth();
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchViews = useCallback(async () => {
+    if (!user) return;
+
+    const [{ data, error }, { data: preferences }] = await Promise.all([
+      supabase.from("saved_views").select("*").order("name", { ascending: true }),
+      supabase.from("saved_view_preferences").select("*").eq("user_id", user.id),
+    ]);
+
+    if (!error && data) {
+      setViews(
+        data.map((view) => {
+          const preference = preferences?.find((p) => p.view_id === view.id);
+          return {
+            ...view,
+            filters: view.filters as Record<string, string>,
+            pinned: preference?.pinned ?? false,
+            is_default: preference?.is_default ?? false,
+          };
+        })
+      );
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    if (enabled && user) {
+      fetchViews();
+    }
+  }, [enabled, user, fetchViews]);
+
+  const createView = async (name: string, filters: Record<string, string>, isShared: boolean) => {
+    const { data, error } = await supabase
+      .from("saved_views")
+      .insert({ owner_id: user!.id, name: name.trim(), filters, is_shared: isShared })
+      .select("id")
+      .single();
+
+    if (!error && data) {
+      // New views are pinned so they show up as a tab right away
+      await supabase.from("saved_view_preferences").insert({ user_id: user!.id, view_id: data.id, pinned: true });
+      await fetchViews();
+    }
+    return { id: data?.id, error };
+  };
+
+  const updateView = async (id: string, changes: SavedViewChanges) => {
+    const { error } = await supabase
+      .from("saved_views")
+      .update({ ...changes, ...(changes.name !== undefined && { name: changes.name.trim() }) })
+      .eq("id", id);
+
+    if (!error) await fetchViews();
+    return { error };
+  };
+
+  const deleteView = async (id: string) => {
+    const { error } = await supabase.from("saved_views").delete().eq("id", id);
+
+    if (!error) setViews((prev) => prev.filter((v) => v.id !== id));
+    return { error };
+  };
+
+  const setPinned = async (id: string, pinned: boolean) => {
+    setViews((prev) => prev.map((v) => (v.id === id ? { ...v, pinned } : v)));
+
+    const { error } = await supabase
+      .from("saved_view_preferences")
+      .upsert({ user_id: user!.id, view_id: id, pinned }, { onConflict: "user_id,view_id" });
+
+    if (error) await fetchViews();
+    return { error };
+  };
+
+  const setDefault = async (id: string | null) => {
+    setViews((prev) => prev.map((v) => ({ ...v, is_default: v.id === id })));
+
+    const { error } = await supabase.rpc("set_default_saved_view", id ? { _view_id: id } : {});
+
+    if (error) await fetchViews();
+    return { error };
+  };
+
+  return { views, loading, createView, updateView, deleteView, setPinned, setDefault };
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Profile } from "@/lib/types";
+
+export type StaffMember = Pick<Profile, "id" | "full_name" | "email">;
+
+// Loads every user holding the admin role, for assignment pickers
+export function useStaffMembers(enabled = true) {
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const fetchStaff = async () => {
+      setLoading(true);
+      const { data: roleData } = await supabase
+        .from("user_roles")
+        .select("user_id")
+        .eq("role", "admin");
+
+      const ids = (roleData || []).map((r) => r.user_id);
+
+      if (ids.length > 0) {
+        const { data } = await supabase
+          .from("profiles")
+          .select("id, full_name, email")
+          .in("id", ids)
+          .order("full_name", { ascending: true });
+
+        setStaff(data || []);
+      } else {
+        setStaff([]);
+      }
+      setLoading(false);
+    };
+
+    fetchStaff();
+  }, [enabled]);
+
+  return { staff, loading };
+}
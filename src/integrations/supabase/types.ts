@@ -62,32 +62,234 @@ export type Database = {
           },
         ]
       }
+      complaint_activity: {
+        Row: {
+          complaint_id: string
+          source: string
+          touched_at: string
+        }
+        Insert: {
+          complaint_id: string
+          source: string
+          touched_at?: string
+        }
+        Update: {
+          complaint_id?: string
+          source?: string
+          touched_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_activity_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: true
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_messages: {
+        Row: {
+          author_user_id: string | null
+          body: string
+          complaint_id: string
+          created_at: string
+          id: string
+          is_staff: boolean
+        }
+        Insert: {
+          author_user_id?: string | null
+          body: string
+          complaint_id: string
+          created_at?: string
+          id?: string
+          is_staff?: boolean
+        }
+        Update: {
+          author_user_id?: string | null
+          body?: string
+          complaint_id?: string
+          created_at?: string
+          id?: string
+          is_staff?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_messages_author_user_id_fkey"
+            columns: ["author_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_messages_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_routing_rules: {
+        Row: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at: string
+          default_assignee_id: string | null
+          id: string
+          is_active: boolean
+          last_assigned_to: string | null
+          member_ids: string[]
+          round_robin: boolean
+          team_name: string
+          updated_at: string
+        }
+        Insert: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at?: string
+          default_assignee_id?: string | null
+          id?: string
+          is_active?: boolean
+          last_assigned_to?: string | null
+          member_ids?: string[]
+          round_robin?: boolean
+          team_name: string
+          updated_at?: string
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["complaint_category"]
+          created_at?: string
+          default_assignee_id?: string | null
+          id?: string
+          is_active?: boolean
+          last_assigned_to?: string | null
+          member_ids?: string[]
+          round_robin?: boolean
+          team_name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_routing_rules_default_assignee_id_fkey"
+            columns: ["default_assignee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_routing_rules_last_assigned_to_fkey"
+            columns: ["last_assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_settings: {
+        Row: {
+          id: boolean
+          reopen_window_days: number
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          reopen_window_days?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          reopen_window_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      complaint_sla_breaches: {
+        Row: {
+          breached_at: string
+          complaint_id: string
+          due_at: string
+          id: string
+          kind: string
+        }
+        Insert: {
+          breached_at?: string
+          complaint_id: string
+          due_at: string
+          id?: string
+          kind: string
+        }
+        Update: {
+          breached_at?: string
+          complaint_id?: string
+          due_at?: string
+          id?: string
+          kind?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_sla_breaches_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_sla_policies: {
+        Row: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          first_response_hours: number
+          resolution_hours: number
+          updated_at: string
+        }
+        Insert: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          first_response_hours?: number
+          resolution_hours?: number
+          updated_at?: string
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["complaint_category"]
+          first_response_hours?: number
+          resolution_hours?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       complaint_status_history: {
         Row: {
           changed_at: string
-          changed_by_user_id: string
+          changed_by_user_id: string | null
           complaint_id: string
+          event_type: string
+          from_assignee: string | null
           from_status: Database["public"]["Enums"]["complaint_status"] | null
           id: string
           note_snapshot: string | null
+          to_assignee: string | null
           to_status: Database["public"]["Enums"]["complaint_status"]
         }
         Insert: {
           changed_at?: string
-          changed_by_user_id: string
+          changed_by_user_id?: string | null
           complaint_id: string
+          event_type?: string
+          from_assignee?: string | null
           from_status?: Database["public"]["Enums"]["complaint_status"] | null
           id?: string
           note_snapshot?: string | null
+          to_assignee?: string | null
           to_status: Database["public"]["Enums"]["complaint_status"]
         }
         Update: {
           changed_at?: string
-          changed_by_user_id?: string
+          changed_by_user_id?: string | null
           complaint_id?: string
+          event_type?: string
+          from_assignee?: string | null
           from_status?: Database["public"]["Enums"]["complaint_status"] | null
           id?: string
           note_snapshot?: string | null
+          to_assignee?: string | null
           to_status?: Database["public"]["Enums"]["complaint_status"]
         }
         Relationships: [
@@ -105,46 +307,148 @@ export type Database = {
             referencedRelation: "complaints"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "complaint_status_history_from_assignee_fkey"
+            columns: ["from_assignee"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_status_history_to_assignee_fkey"
+            columns: ["to_assignee"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_status_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["complaint_status"]
+          requires_note: boolean
+          to_status: Database["public"]["Enums"]["complaint_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["complaint_status"]
+          requires_note?: boolean
+          to_status: Database["public"]["Enums"]["complaint_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["complaint_status"]
+          requires_note?: boolean
+          to_status?: Database["public"]["Enums"]["complaint_status"]
+        }
+        Relationships: []
+      }
+      complaint_tags: {
+        Row: {
+          complaint_id: string
+          created_at: string
+          created_by: string | null
+          tag: string
+        }
+        Insert: {
+          complaint_id: string
+          created_at?: string
+          created_by?: string | null
+          tag: string
+        }
+        Update: {
+          complaint_id?: string
+          created_at?: string
+          created_by?: string | null
+          tag?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_tags_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_tags_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       complaints: {
         Row: {
           admin_note: string | null
-          attachment_id: string | null
+          assigned_to: string | null
           category: Database["public"]["Enums"]["complaint_category"]
           created_at: string
           description: string
+          first_responded_at: string | null
+          first_response_due_at: string | null
           id: string
+          is_anonymous: boolean
+          reopen_count: number
+          resolution_confirmed_at: string | null
+          resolve_due_at: string | null
+          resolved_at: string | null
+          search_vector: unknown
           status: Database["public"]["Enums"]["complaint_status"]
           student_id: string
           title: string
           updated_at: string
+          version: number
         }
         Insert: {
           admin_note?: string | null
-          attachment_id?: string | null
+          assigned_to?: string | null
           category: Database["public"]["Enums"]["complaint_category"]
           created_at?: string
           description: string
+          first_responded_at?: string | null
+          first_response_due_at?: string | null
           id?: string
+          is_anonymous?: boolean
+          reopen_count?: number
+          resolution_confirmed_at?: string | null
+          resolve_due_at?: string | null
+          resolved_at?: string | null
+          search_vector?: unknown
           status?: Database["public"]["Enums"]["complaint_status"]
           student_id: string
           title: string
           updated_at?: string
+          version?: number
         }
         Update: {
           admin_note?: string | null
-          attachment_id?: string | null
+          assigned_to?: string | null
           category?: Database["public"]["Enums"]["complaint_category"]
           created_at?: string
           description?: string
+          first_responded_at?: string | null
+          first_response_due_at?: string | null
           id?: string
+          is_anonymous?: boolean
+          reopen_count?: number
+          resolution_confirmed_at?: string | null
+          resolve_due_at?: string | null
+          resolved_at?: string | null
+          search_vector?: unknown
           status?: Database["public"]["Enums"]["complaint_status"]
           student_id?: string
           title?: string
           updated_at?: string
+          version?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "complaints_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "complaints_student_id_fkey"
             columns: ["student_id"]
@@ -152,11 +456,141 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      email_outbox: {
+        Row: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          payload: Json
+          sent_at: string | null
+          status: string
+          template: string
+          to_email: string
+          to_user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          sent_at?: string | null
+          status?: string
+          template: string
+          to_email: string
+          to_user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          sent_at?: string | null
+          status?: string
+          template?: string
+          to_email?: string
+          to_user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_to_user_id_fkey"
+            columns: ["to_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      identity_reveal_log: {
+        Row: {
+          complaint_id: string
+          id: string
+          reason: string
+          revealed_at: string
+          revealed_by_user_id: string
+        }
+        Insert: {
+          complaint_id: string
+          id?: string
+          reason: string
+          revealed_at?: string
+          revealed_by_user_id: string
+        }
+        Update: {
+          complaint_id?: string
+          id?: string
+          reason?: string
+          revealed_at?: string
+          revealed_by_user_id?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "fk_complaints_attachment"
-            columns: ["attachment_id"]
+            foreignKeyName: "identity_reveal_log_complaint_id_fkey"
+            columns: ["complaint_id"]
             isOneToOne: false
-            referencedRelation: "attachments"
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "identity_reveal_log_revealed_by_user_id_fkey"
+            columns: ["revealed_by_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          complaint_id: string | null
+          created_at: string
+          id: string
+          kind: string
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          complaint_id?: string | null
+          created_at?: string
+          id?: string
+          kind: string
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          complaint_id?: string | null
+          created_at?: string
+          id?: string
+          kind?: string
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
@@ -165,6 +599,8 @@ export type Database = {
         Row: {
           created_at: string
           email: string
+          email_on_new_complaint: boolean
+          email_on_status_change: boolean
           full_name: string
           id: string
           is_active: boolean
@@ -174,6 +610,8 @@ export type Database = {
         Insert: {
           created_at?: string
           email: string
+          email_on_new_complaint?: boolean
+          email_on_status_change?: boolean
           full_name: string
           id: string
           is_active?: boolean
@@ -183,6 +621,8 @@ export type Database = {
         Update: {
           created_at?: string
           email?: string
+          email_on_new_complaint?: boolean
+          email_on_status_change?: boolean
           full_name?: string
           id?: string
           is_active?: boolean
@@ -191,6 +631,169 @@ export type Database = {
         }
         Relationships: []
       }
+      saved_view_preferences: {
+        Row: {
+          created_at: string
+          is_default: boolean
+          pinned: boolean
+          user_id: string
+          view_id: string
+        }
+        Insert: {
+          created_at?: string
+          is_default?: boolean
+          pinned?: boolean
+          user_id: string
+          view_id: string
+        }
+        Update: {
+          created_at?: string
+          is_default?: boolean
+          pinned?: boolean
+          user_id?: string
+          view_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_view_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_view_preferences_view_id_fkey"
+            columns: ["view_id"]
+            isOneToOne: false
+            referencedRelation: "saved_views"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_views: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          is_shared: boolean
+          name: string
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          is_shared?: boolean
+          name: string
+          owner_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          is_shared?: boolean
+          name?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_views_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          full_name: string
+          id: string
+          invited_by: string | null
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          full_name: string
+          id?: string
+          invited_by?: string | null
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          full_name?: string
+          id?: string
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_audit_log: {
+        Row: {
+          action: string
+          actor_user_id: string | null
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"] | null
+          target_email: string
+          target_user_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_user_id?: string | null
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"] | null
+          target_email: string
+          target_user_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_user_id?: string | null
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"] | null
+          target_email?: string
+          target_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_audit_log_actor_user_id_fkey"
+            columns: ["actor_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_audit_log_target_user_id_fkey"
+            columns: ["target_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -214,9 +817,226 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      admin_attachments: {
+        Row: {
+          byte_size: number | null
+          complaint_id: string | null
+          created_at: string | null
+          id: string | null
+          mime_type: string | null
+          original_filename: string | null
+          owner_user_id: string | null
+          stored_path: string | null
+          uploaded_by_staff: boolean | null
+          uploader_full_name: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attachments_owner_user_id_fkey"
+            columns: ["owner_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      admin_complaint_history: {
+        Row: {
+          changed_at: string | null
+          changed_by_user_id: string | null
+          complaint_id: string | null
+          event_type: string | null
+          from_assignee: string | null
+          from_status: Database["public"]["Enums"]["complaint_status"] | null
+          id: string | null
+          note_snapshot: string | null
+          to_assignee: string | null
+          to_status: Database["public"]["Enums"]["complaint_status"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_status_history_changed_by_user_id_fkey"
+            columns: ["changed_by_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_status_history_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      admin_complaint_messages: {
+        Row: {
+          author_full_name: string | null
+          author_user_id: string | null
+          body: string | null
+          complaint_id: string | null
+          created_at: string | null
+          id: string | null
+          is_staff: boolean | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_messages_author_user_id_fkey"
+            columns: ["author_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_messages_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      admin_complaints: {
+        Row: {
+          admin_note: string | null
+          assigned_to: string | null
+          assignee_full_name: string | null
+          category: Database["public"]["Enums"]["complaint_category"] | null
+          created_at: string | null
+          description: string | null
+          first_responded_at: string | null
+          first_response_due_at: string | null
+          id: string | null
+          is_anonymous: boolean | null
+          reopen_count: number | null
+          resolution_confirmed_at: string | null
+          resolve_due_at: string | null
+          resolved_at: string | null
+          status: Database["public"]["Enums"]["complaint_status"] | null
+          student_email: string | null
+          student_full_name: string | null
+          student_id: string | null
+          title: string | null
+          updated_at: string | null
+          version: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaints_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaints_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      admin_user_ids: { Args: never; Returns: string[] }
+      assign_complaint: {
+        Args: { _assignee_id?: string; _complaint_id: string }
+        Returns: undefined
+      }
+      bulk_update_complaints: {
+        Args: {
+          _action: string
+          _assignee_id?: string
+          _complaint_ids: string[]
+          _note?: string
+          _tag?: string
+          _to_status?: Database["public"]["Enums"]["complaint_status"]
+        }
+        Returns: {
+          complaint_id: string
+          error_code: string
+          error_message: string
+          succeeded: boolean
+        }[]
+      }
+      can_attach_to_complaint: { Args: { _complaint_id: string }; Returns: boolean }
+      claim_email_outbox: {
+        Args: { _batch_size?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          payload: Json
+          sent_at: string | null
+          status: string
+          template: string
+          to_email: string
+          to_user_id: string
+        }[]
+      }
+      complaint_admin_throughput: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          admin_id: string
+          complaints_handled: number
+          full_name: string
+          resolved_count: number
+          status_changes: number
+        }[]
+      }
+      complaint_response_times: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          complaint_count: number
+          first_response_median_hours: number
+          first_response_p90_hours: number
+          resolve_median_hours: number
+          resolve_p90_hours: number
+          resolved_count: number
+          responded_count: number
+        }[]
+      }
+      complaint_search_query: { Args: { _search: string }; Returns: unknown }
+      complaint_status_durations: {
+        Args: { _complaint_ids: string[] }
+        Returns: {
+          complaint_id: string
+          hours: number
+          status: Database["public"]["Enums"]["complaint_status"]
+        }[]
+      }
+      complaint_status_label: {
+        Args: { _status: Database["public"]["Enums"]["complaint_status"] }
+        Returns: string
+      }
+      complaint_weekly_backlog: {
+        Args: { _from: string; _time_zone?: string; _to: string }
+        Returns: {
+          open_count: number
+          week_start: string
+        }[]
+      }
+      complaint_weekly_volume: {
+        Args: { _from: string; _time_zone?: string; _to: string }
+        Returns: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          complaint_count: number
+          week_start: string
+        }[]
+      }
+      complete_email_outbox: {
+        Args: { _error?: string; _id: string }
+        Returns: undefined
+      }
+      confirm_complaint_resolution: {
+        Args: { _complaint_id: string }
+        Returns: undefined
+      }
       get_user_role: {
         Args: { user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -228,10 +1048,108 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_complaints: { Args: { _rows: Json }; Returns: number }
+      invite_staff: {
+        Args: {
+          _email: string
+          _full_name: string
+          _role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: boolean
+      }
+      is_active_user: { Args: { _user_id: string }; Returns: boolean }
       is_admin: { Args: { user_id: string }; Returns: boolean }
+      list_users: {
+        Args: { _role?: Database["public"]["Enums"]["app_role"]; _search?: string }
+        Returns: {
+          assigned_open_count: number
+          complaint_count: number
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+          is_active: boolean
+          last_sign_in_at: string
+          roles: Database["public"]["Enums"]["app_role"][]
+        }[]
+      }
+      notify_users: {
+        Args: {
+          _body: string
+          _complaint_id: string
+          _kind: string
+          _title: string
+          _user_ids: string[]
+        }
+        Returns: undefined
+      }
+      record_sla_breaches: { Args: never; Returns: number }
+      reopen_complaint: {
+        Args: { _complaint_id: string; _reason: string }
+        Returns: undefined
+      }
+      reveal_complaint_identity: {
+        Args: { _complaint_id: string; _reason: string }
+        Returns: {
+          email: string
+          full_name: string
+          student_id: string
+        }[]
+      }
+      search_admin_complaints: {
+        Args: { _filters?: Json }
+        Returns: {
+          admin_note: string
+          assigned_to: string
+          assignee_full_name: string
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at: string
+          description: string
+          first_responded_at: string
+          first_response_due_at: string
+          id: string
+          is_anonymous: boolean
+          reopen_count: number
+          resolution_confirmed_at: string
+          resolve_due_at: string
+          resolved_at: string
+          search_rank: number
+          search_snippet: string
+          search_title: string
+          status: Database["public"]["Enums"]["complaint_status"]
+          student_email: string
+          student_full_name: string
+          student_id: string
+          title: string
+          updated_at: string
+        }[]
+      }
+      set_default_saved_view: { Args: { _view_id?: string }; Returns: undefined }
+      set_user_active: {
+        Args: { _active: boolean; _user_id: string }
+        Returns: undefined
+      }
+      set_user_role: {
+        Args: {
+          _granted: boolean
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      sync_profile_role: { Args: { _user_id: string }; Returns: undefined }
+      update_complaint_status: {
+        Args: {
+          _complaint_id: string
+          _expected_version: number
+          _note: string
+          _to_status: Database["public"]["Enums"]["complaint_status"]
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      app_role: "student" | "admin"
+      app_role: "student" | "admin" | "grievance_officer"
       complaint_category:
         | "mentor"
         | "admin"
@@ -239,7 +1157,15 @@ export type Database = {
         | "working_hub"
         | "peer"
         | "other"
-      complaint_status: "open" | "in_progress" | "resolved"
+      complaint_status:
+        | "open"
+        | "triaged"
+        | "in_progress"
+        | "waiting_on_student"
+        | "escalated"
+        | "resolved"
+        | "rejected"
+        | "closed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -367,7 +1293,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["student", "admin"],
+      app_role: ["student", "admin", "grievance_officer"],
       complaint_category: [
         "mentor",
         "admin",
@@ -376,7 +1302,16 @@ export const Constants = {
         "peer",
         "other",
       ],
-      complaint_status: ["open", "in_progress", "resolved"],
+      complaint_status: [
+        "open",
+        "triaged",
+        "in_progress",
+        "waiting_on_student",
+        "escalated",
+        "resolved",
+        "rejected",
+        "closed",
+      ],
     },
   },
 } as const
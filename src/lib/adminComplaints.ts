@@ -0,0 +1,132 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Attachment, Complaint, ComplaintMessage, ComplaintStatusHistory } from "./types";
+
+// Staff read complaints through the masked admin_* views, which hide the
+// student behind anonymous complaints. These helpers map view rows back to
+// the shapes the UI already uses.
+
+type Views = Database["public"]["Views"];
+type Functions = Database["public"]["Functions"];
+
+export interface ComplaintSearchResult extends Complaint {
+  // Title and body fragments with matches wrapped in <mark>…</mark>; null when not searching
+  search_title: string | null;
+  search_snippet: string | null;
+}
+
+export const fromAdminComplaintRow = (
+  row: Omit<Views["admin_complaints"]["Row"], "version"> & { version?: number | null }
+): Complaint => ({
+  id: row.id!,
+  student_id: row.student_id ?? "",
+  title: row.title!,
+  category: row.category!,
+  description: row.description!,
+  status: row.status!,
+  admin_note: row.admin_note,
+  is_anonymous: !!row.is_anonymous,
+  assigned_to: row.assigned_to,
+  resolved_at: row.resolved_at,
+  resolution_confirmed_at: row.resolution_confirmed_at,
+  reopen_count: row.reopen_count ?? 0,
+  first_response_due_at: row.first_response_due_at,
+  resolve_due_at: row.resolve_due_at,
+  first_responded_at: row.first_responded_at,
+  created_at: row.created_at!,
+  updated_at: row.updated_at!,
+  version: row.version ?? undefined,
+  student: row.student_id
+    ? { id: row.student_id, full_name: row.student_full_name ?? "", email: row.student_email ?? "" }
+    : null,
+  assignee: row.assigned_to
+    ? { id: row.assigned_to, full_name: row.assignee_full_name ?? "" }
+    : null,
+});
+
+export const fromComplaintSearchRow = (
+  row: Functions["search_admin_complaints"]["Returns"][number]
+): ComplaintSearchResult => ({
+  ...fromAdminComplaintRow(row),
+  search_title: row.search_title,
+  search_snippet: row.search_snippet,
+});
+
+export const fromAdminHistoryRow = (
+  row: Views["admin_complaint_history"]["Row"]
+): ComplaintStatusHistory => ({
+  id: row.id!,
+  complaint_id: row.complaint_id!,
+  changed_by_user_id: row.changed_by_user_id,
+  event_type: row.event_type as ComplaintStatusHistory["event_type"],
+  from_status: row.from_status,
+  to_status: row.to_status!,
+  from_assignee: row.from_assignee,
+  to_assignee: row.to_assignee,
+  note_snapshot: row.note_snapshot,
+  changed_at: row.changed_at!,
+});
+
+export const fromAdminMessageRow = (row: Views["admin_complaint_messages"]["Row"]): ComplaintMessage => ({
+  id: row.id!,
+  complaint_id: row.complaint_id!,
+  author_user_id: row.author_user_id,
+  is_staff: !!row.is_staff,
+  body: row.body!,
+  created_at: row.created_at!,
+  author: row.author_user_id ? { id: row.author_user_id, full_name: row.author_full_name ?? "" } : null,
+});
+
+export const fromAdminAttachmentRow = (row: Views["admin_attachments"]["Row"]): Attachment => ({
+  id: row.id!,
+  owner_user_id: row.owner_user_id ?? "",
+  complaint_id: row.complaint_id,
+  original_filename: row.original_filename!,
+  stored_path: row.stored_path,
+  mime_type: row.mime_type!,
+  byte_size: row.byte_size!,
+  created_at: row.created_at!,
+  uploader: row.owner_user_id ? { id: row.owner_user_id, full_name: row.uploader_full_name ?? "" } : null,
+  uploaded_by_staff: !!row.uploaded_by_staff,
+});
+
+// Keeps id lists in the query string well under URL length limits
+const ID_CHUNK_SIZE = 100;
+
+const chunk = <T>(items: T[]) =>
+  Array.from({ length: Math.ceil(items.length / ID_CHUNK_SIZE) }, (_, i) =>
+    items.slice(i * ID_CHUNK_SIZE, (i + 1) * ID_CHUNK_SIZE)
+  );
+
+// Staff-only tags for the given complaints, keyed by complaint id
+export const fetchComplaintTags = async (complaintIds: string[]) => {
+  const tags: Record<string, string[]> = {};
+
+  for (const ids of chunk(complaintIds)) {
+    const { data, error } = await supabase
+      .from("complaint_tags")
+      .select("complaint_id, tag")
+      .in("complaint_id", ids)
+      .order("tag", { ascending: true });
+
+    if (error) throw error;
+    for (const row of data) {
+      (tags[row.complaint_id] ??= []).push(row.tag);
+    }
+  }
+  return tags;
+};
+
+// Loads specific complaints through the masked admin view, e.g. a selection
+// spanning several pages
+export const fetchAdminComplaintsByIds = async (complaintIds: string[]) => {
+  const complaints: Complaint[] = [];
+
+  for (const ids of chunk(complaintIds)) {
+    const { data, error } = await supabase.from("admin_complaints").select("*").in("id", ids);
+
+    if (error) throw error;
+    complaints.push(...data.map(fromAdminComplaintRow));
+  }
+  return complaints.sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
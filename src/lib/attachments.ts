@@ -0,0 +1,154 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Attachment } from "./types";
+
+export const ATTACHMENT_BUCKET = "complaint-attachments";
+export const ATTACHMENT_MIME_TYPES = ["application/pdf", "image/jpeg", "image/png", "image/jpg"];
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024; // 10MB, matches the bucket limit
+export const MAX_ATTACHMENTS = 5;
+
+// Returns a user-facing reason the file cannot be attached, or null if it is fine
+export const validateAttachment = (file: File): string | null => {
+  if (!ATTACHMENT_MIME_TYPES.includes(file.type)) {
+    return `${file.name} is not a PDF, JPG, or PNG file.`;
+  }
+  if (file.size > ATTACHMENT_MAX_BYTES) {
+    return `${file.name} is larger than 10MB.`;
+  }
+  return null;
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+export const isImageAttachment = (attachment: Pick<Attachment, "mime_type">) =>
+  attachment.mime_type.startsWith("image/");
+
+export const isPreviewable = (attachment: Pick<Attachment, "mime_type">) =>
+  isImageAttachment(attachment) || attachment.mime_type === "application/pdf";
+
+// supabase-js uploads do not report progress, so the file is sent to a signed
+// upload URL with XMLHttpRequest instead.
+const putWithProgress = (url: string, file: File, onProgress: (percent: number) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const body = new FormData();
+    body.append("cacheControl", "3600");
+    body.append("", file);
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    xhr.setRequestHeader("x-upsert", "false");
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(100);
+        resolve();
+      } else {
+        reject(new Error(`Upload of ${file.name} failed (${xhr.status})`));
+      }
+    };
+    xhr.onerror = () => reject(new Error(`Upload of ${file.name} failed`));
+    xhr.send(body);
+  });
+
+interface UploadAttachmentOptions {
+  complaintId: string;
+  ownerId: string;
+  file: File;
+  onProgress?: (percent: number) => void;
+}
+
+// Files are stored under <complaint_id>/ so the path never reveals the student
+export const uploadAttachment = async ({
+  complaintId,
+  ownerId,
+  file,
+  onProgress = () => {},
+}: UploadAttachmentOptions): Promise<Attachment> => {
+  const fileExt = file.name.split(".").pop();
+  const storedPath = `${complaintId}/${crypto.randomUUID()}.${fileExt}`;
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUploadUrl(storedPath);
+
+  if (signError) throw signError;
+
+  await putWithProgress(signed.signedUrl, file, onProgress);
+
+  const { data, error } = await supabase
+    .from("attachments")
+    .insert({
+      owner_user_id: ownerId,
+      complaint_id: complaintId,
+      original_filename: file.name,
+      stored_path: storedPath,
+      mime_type: file.type,
+      byte_size: file.size,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Staff get no stored_path for legacy files on anonymous complaints (the path
+// names the student), so those are fetched through the attachment-file edge
+// function instead of from storage
+const fetchHiddenAttachment = async (attachment: Attachment) => {
+  const { data } = await supabase.auth.getSession();
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/attachment-file`, {
+    method: "POST",
+    headers: {
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${data.session?.access_token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ attachmentId: attachment.id }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Could not load ${attachment.original_filename}.`);
+  }
+  return response.blob();
+};
+
+export const getAttachmentUrl = async (attachment: Attachment, expiresIn = 300) => {
+  if (!attachment.stored_path) {
+    return URL.createObjectURL(await fetchHiddenAttachment(attachment));
+  }
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrl(attachment.stored_path, expiresIn);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+const downloadFromStorage = async (storedPath: string) => {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .download(storedPath);
+
+  if (error) throw error;
+  return data;
+};
+
+export const downloadAttachment = async (attachment: Attachment) => {
+  const data = attachment.stored_path
+    ? await downloadFromStorage(attachment.stored_path)
+    : await fetchHiddenAttachment(attachment);
+
+  const url = URL.createObjectURL(data);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = attachment.original_filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -1,8 +1,9 @@
 import { createContext, useContext, useEffect, useState } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
-import { Profile } from "./types";
+import { AppRole, Profile } from "./types";
 import { useNavigate } from "react-router-dom";
+import { AccountDeactivated } from "@/components/AccountDeactivated";
 
 interface AuthContextType {
   user: User | null;
@@ -22,13 +23,54 @@ const AuthContext = createContext<AuthContextType>({
 
 export const useAuth = () => useContext(AuthContext);
 
+// The primary role drives routing between the student and admin areas;
+// extra roles such as grievance_officer only unlock specific actions.
+const resolveRoles = (
+  roleData: { role: AppRole }[] | null,
+  fallback: AppRole
+): Pick<Profile, "role" | "roles"> => {
+  const roles = roleData?.length ? roleData.map((r) => r.role) : [fallback];
+  const role = roles.includes("admin") ? "admin" : roles.includes("student") ? "student" : roles[0];
+  return { role, roles };
+};
+
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [deactivated, setDeactivated] = useState(false);
   const navigate = useNavigate();
 
+  const loadProfile = async (userId: string) => {
+    const { data: profileData } = await supabase
+      .from("profiles")
+      .select("*")
+      .eq("id", userId)
+      .single();
+
+    if (!profileData) return;
+
+    // Deactivated accounts are signed out; RLS already hides their data
+    if (!profileData.is_active) {
+      setDeactivated(true);
+      setProfile(null);
+      await supabase.auth.signOut();
+      return;
+    }
+
+    // Fetch actual roles from user_roles table; a user may hold several
+    const { data: roleData } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", userId);
+
+    setProfile({
+      ...profileData,
+      ...resolveRoles(roleData, profileData.role),
+    });
+  };
+
   useEffect(() => {
     // Set up auth state listener
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -38,27 +80,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         
         if (session?.user) {
           // Defer profile fetch with role from user_roles
-          setTimeout(async () => {
-            const { data: profileData } = await supabase
-              .from("profiles")
-              .select("*")
-              .eq("id", session.user.id)
-              .single();
-            
-            if (profileData) {
-              // Fetch actual role from user_roles table
-              const { data: roleData } = await supabase
-                .from("user_roles")
-                .select("role")
-                .eq("user_id", session.user.id)
-                .single();
-              
-              setProfile({
-                ...profileData,
-                role: roleData?.role || profileData.role
-              });
-            }
-          }, 0);
+          setTimeout(() => loadProfile(session.user.id), 0);
         } else {
           setProfile(null);
         }
@@ -72,25 +94,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       
       if (session?.user) {
         setTimeout(async () => {
-          const { data: profileData } = await supabase
-            .from("profiles")
-            .select("*")
-            .eq("id", session.user.id)
-            .single();
-          
-          if (profileData) {
-            // Fetch actual role from user_roles table
-            const { data: roleData } = await supabase
-              .from("user_roles")
-              .select("role")
-              .eq("user_id", session.user.id)
-              .single();
-            
-            setProfile({
-              ...profileData,
-              role: roleData?.role || profileData.role
-            });
-          }
+          await loadProfile(session.user.id);
           setLoading(false);
         }, 0);
       } else {
@@ -108,7 +112,16 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
   return (
     <AuthContext.Provider value={{ user, session, profile, loading, signOut }}>
-      {children}
+      {deactivated ? (
+        <AccountDeactivated
+          onDismiss={() => {
+            setDeactivated(false);
+            navigate("/auth");
+          }}
+        />
+      ) : (
+        children
+      )}
     </AuthContext.Provider>
   );
 };
\ No newline at end of file
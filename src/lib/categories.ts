@@ -0,0 +1,12 @@
+import { ComplaintCategory } from "./types";
+
+export const CATEGORY_LABELS: Record<ComplaintCategory, string> = {
+  mentor: "Mentor",
+  admin: "Admin",
+  academic_counsellor: "Academic Counsellor",
+  working_hub: "Working Hub",
+  peer: "Peer",
+  other: "Other",
+};
+
+export const COMPLAINT_CATEGORIES = Object.keys(CATEGORY_LABELS) as ComplaintCategory[];
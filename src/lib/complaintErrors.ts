@@ -0,0 +1,40 @@
+// SQLSTATE codes raised by the complaint workflow functions and triggers
+// (see supabase/migrations). Keep in sync with the database.
+export const COMPLAINT_ERROR_CODES = {
+  BR001: "invalid_transition",
+  BR002: "note_required",
+  BR003: "complaint_locked",
+  BR004: "not_authorized",
+  BR005: "complaint_not_found",
+  BR006: "reopen_window_expired",
+  BR007: "stale_update",
+} as const;
+
+export type ComplaintErrorKind = (typeof COMPLAINT_ERROR_CODES)[keyof typeof COMPLAINT_ERROR_CODES];
+
+const errorTitles: Record<ComplaintErrorKind, string> = {
+  invalid_transition: "Status change not allowed",
+  note_required: "Note required",
+  complaint_locked: "Complaint is locked",
+  not_authorized: "Not allowed",
+  complaint_not_found: "Complaint not found",
+  reopen_window_expired: "Reopen window passed",
+  stale_update: "Complaint changed",
+};
+
+export const getComplaintErrorKind = (error: unknown): ComplaintErrorKind | null => {
+  const code = (error as { code?: string } | null)?.code;
+  if (!code || !(code in COMPLAINT_ERROR_CODES)) return null;
+  return COMPLAINT_ERROR_CODES[code as keyof typeof COMPLAINT_ERROR_CODES];
+};
+
+// Builds toast content for a failed workflow call
+export const describeComplaintError = (error: unknown, fallbackTitle: string, fallbackDescription: string) => {
+  const kind = getComplaintErrorKind(error);
+  const message = (error as { message?: string } | null)?.message;
+
+  return {
+    title: kind ? errorTitles[kind] : fallbackTitle,
+    description: message || fallbackDescription,
+  };
+};
@@ -0,0 +1,93 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Complaint } from "./types";
+import { STATUS_LABELS } from "./status";
+import { CATEGORY_LABELS } from "./categories";
+import { ComplaintListFilters, toComplaintSearchArgs } from "./complaintFilters";
+import { format } from "date-fns";
+
+// Spreadsheet exports of the admin complaint list. Anonymous complaints keep
+// their student columns empty, as the masked admin view already returns them.
+
+interface ExportColumn {
+  header: string;
+  value: (complaint: Complaint, tags: string[]) => string;
+}
+
+const formatDate = (value: string | null) => (value ? format(new Date(value), "yyyy-MM-dd HH:mm") : "");
+
+export const COMPLAINT_EXPORT_COLUMNS: ExportColumn[] = [
+  { header: "ID", value: (c) => c.id },
+  { header: "Submitted", value: (c) => formatDate(c.created_at) },
+  { header: "Title", value: (c) => c.title },
+  { header: "Category", value: (c) => CATEGORY_LABELS[c.category] },
+  { header: "Status", value: (c) => STATUS_LABELS[c.status] },
+  { header: "Student", value: (c) => (c.is_anonymous ? "Anonymous" : c.student?.full_name ?? "") },
+  { header: "Student email", value: (c) => c.student?.email ?? "" },
+  { header: "Assignee", value: (c) => c.assignee?.full_name ?? "" },
+  { header: "Tags", value: (_c, tags) => tags.join(", ") },
+  { header: "Resolve by", value: (c) => formatDate(c.resolve_due_at) },
+  { header: "Resolved", value: (c) => formatDate(c.resolved_at) },
+  { header: "Updated", value: (c) => formatDate(c.updated_at) },
+  { header: "Description", value: (c) => c.description },
+];
+
+// Quotes every field and neutralises leading =, +, - and @ so spreadsheet apps
+// do not evaluate complaint text as formulas
+const csvField = (value: string) => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+};
+
+export const toComplaintCsv = (complaints: Complaint[], tagsByComplaint: Record<string, string[]> = {}) => {
+  const lines = [
+    COMPLAINT_EXPORT_COLUMNS.map((column) => csvField(column.header)).join(","),
+    ...complaints.map((complaint) =>
+      COMPLAINT_EXPORT_COLUMNS.map((column) =>
+        csvField(column.value(complaint, tagsByComplaint[complaint.id] ?? []))
+      ).join(",")
+    ),
+  ];
+  // BOM so Excel opens UTF-8 names correctly
+  return `\uFEFF${lines.join("\r\n")}`;
+};
+
+export const downloadFile = (content: BlobPart, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportFilename = (extension: string) => `complaints-${format(new Date(), "yyyy-MM-dd-HHmm")}.${extension}`;
+
+export type ComplaintExportFormat = "csv" | "xlsx";
+
+// Exports every complaint matching the filters through the export-complaints
+// edge function, which streams the file page by page and adds time-in-status
+// columns from the history. Resolves once the whole file has arrived.
+export const fetchComplaintExport = async (filters: ComplaintListFilters, exportFormat: ComplaintExportFormat) => {
+  const { data } = await supabase.auth.getSession();
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/export-complaints`, {
+    method: "POST",
+    headers: {
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${data.session?.access_token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      filters: toComplaintSearchArgs(filters),
+      sort: filters.sort,
+      ascending: filters.ascending,
+      format: exportFormat,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || "The export could not be generated.");
+  }
+  return response.blob();
+};
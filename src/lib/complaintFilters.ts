@@ -0,0 +1,155 @@
+import { ComplaintCategory, ComplaintStatus } from "./types";
+import { COMPLAINT_STATUSES } from "./status";
+import { COMPLAINT_CATEGORIES } from "./categories";
+import { addDays, format, isValid, parseISO, startOfDay } from "date-fns";
+
+// Admin complaint list state. It lives in the URL query string so a filtered,
+// sorted page can be bookmarked, shared or restored with the back button.
+
+export const COMPLAINT_PAGE_SIZE = 25;
+
+export const COMPLAINT_SORT_COLUMNS = [
+  "created_at",
+  "title",
+  "category",
+  "student_full_name",
+  "assignee_full_name",
+  "status",
+  "resolve_due_at",
+  "updated_at",
+  "search_rank",
+] as const;
+
+export type ComplaintSortColumn = (typeof COMPLAINT_SORT_COLUMNS)[number];
+
+export type ComplaintDateField = "created" | "updated";
+
+export interface ComplaintListFilters {
+  search: string;
+  status: ComplaintStatus | "all";
+  category: ComplaintCategory | "all";
+  assignee: string;
+  overdue: boolean;
+  dateField: ComplaintDateField;
+  // Inclusive calendar days (yyyy-MM-dd) in the admin's time zone
+  dateFrom: string | null;
+  dateTo: string | null;
+  student: string | null;
+  // Only complaints with no update for more than this many days
+  staleDays: number | null;
+  hasAttachment: boolean;
+  sort: ComplaintSortColumn;
+  ascending: boolean;
+  page: number;
+}
+
+export const DEFAULT_COMPLAINT_FILTERS: ComplaintListFilters = {
+  search: "",
+  status: "all",
+  category: "all",
+  assignee: "all",
+  overdue: false,
+  dateField: "created",
+  dateFrom: null,
+  dateTo: null,
+  student: null,
+  staleDays: null,
+  hasAttachment: false,
+  sort: "created_at",
+  ascending: false,
+  page: 1,
+};
+
+const oneOf = <T extends string>(values: readonly T[], value: string | null, fallback: T): T =>
+  values.includes(value as T) ? (value as T) : fallback;
+
+const parseDay = (value: string | null) => (value && isValid(parseISO(value)) ? value : null);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Ids go to the server as uuids, so a mistyped link would fail the whole query
+const parseId = (value: string | null) => (value && UUID_PATTERN.test(value) ? value : null);
+
+export const toDayParam = (date: Date) => format(date, "yyyy-MM-dd");
+
+export const parseComplaintFilters = (params: URLSearchParams): ComplaintListFilters => {
+  const page = Number.parseInt(params.get("page") ?? "", 10);
+  const search = params.get("q") ?? "";
+  const sort = oneOf(COMPLAINT_SORT_COLUMNS, params.get("sort"), DEFAULT_COMPLAINT_FILTERS.sort);
+  const staleDays = Number.parseInt(params.get("stale") ?? "", 10);
+
+  return {
+    search,
+    status: oneOf(COMPLAINT_STATUSES, params.get("status"), "all"),
+    category: oneOf(COMPLAINT_CATEGORIES, params.get("category"), "all"),
+    assignee: params.get("assignee") || "all",
+    overdue: params.get("overdue") === "1",
+    dateField: params.get("date") === "updated" ? "updated" : "created",
+    dateFrom: parseDay(params.get("from")),
+    dateTo: parseDay(params.get("to")),
+    student: parseId(params.get("student")),
+    staleDays: Number.isFinite(staleDays) && staleDays > 0 ? staleDays : null,
+    hasAttachment: params.get("attachments") === "1",
+    // Relevance only applies while searching
+    sort: sort === "search_rank" && !search ? DEFAULT_COMPLAINT_FILTERS.sort : sort,
+    ascending: params.get("dir") === "asc",
+    page: Number.isFinite(page) && page > 0 ? page : 1,
+  };
+};
+
+// Starting a search sorts by relevance; clearing it drops the relevance sort,
+// which means nothing without a query
+export const withSearch = (filters: ComplaintListFilters, search: string): Partial<ComplaintListFilters> => {
+  if (search.trim() && !filters.search.trim()) {
+    return { search, sort: "search_rank", ascending: false };
+  }
+  if (!search.trim() && filters.sort === "search_rank") {
+    return { search, sort: DEFAULT_COMPLAINT_FILTERS.sort, ascending: DEFAULT_COMPLAINT_FILTERS.ascending };
+  }
+  return { search };
+};
+
+// Only non-default values are written, keeping URLs short
+export const toComplaintSearchParams = (filters: ComplaintListFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.search) params.set("q", filters.search);
+  if (filters.status !== "all") params.set("status", filters.status);
+  if (filters.category !== "all") params.set("category", filters.category);
+  if (filters.assignee !== "all") params.set("assignee", filters.assignee);
+  if (filters.overdue) params.set("overdue", "1");
+  if (filters.dateField !== "created") params.set("date", filters.dateField);
+  if (filters.dateFrom) params.set("from", filters.dateFrom);
+  if (filters.dateTo) params.set("to", filters.dateTo);
+  if (filters.student) params.set("student", filters.student);
+  if (filters.staleDays) params.set("stale", String(filters.staleDays));
+  if (filters.hasAttachment) params.set("attachments", "1");
+  if (filters.sort !== DEFAULT_COMPLAINT_FILTERS.sort) params.set("sort", filters.sort);
+  if (filters.ascending) params.set("dir", "asc");
+  if (filters.page > 1) params.set("page", String(filters.page));
+  return params;
+};
+
+// Saved views keep the query string parameters, minus the page
+export const toSavedViewFilters = (filters: ComplaintListFilters): Record<string, string> =>
+  Object.fromEntries(toComplaintSearchParams({ ...filters, page: 1 }));
+
+export const matchesSavedView = (filters: ComplaintListFilters, viewFilters: Record<string, string>) =>
+  toComplaintSearchParams({ ...filters, page: 1 }).toString() ===
+  toComplaintSearchParams(parseComplaintFilters(new URLSearchParams(viewFilters))).toString();
+
+// Argument for the search_admin_complaints RPC; sorting and paging are applied
+// separately with order() and range()
+export const toComplaintSearchArgs = (filters: ComplaintListFilters) => ({
+  search: filters.search.trim() || null,
+  status: filters.status === "all" ? null : filters.status,
+  category: filters.category === "all" ? null : filters.category,
+  assignee: filters.assignee === "all" ? null : filters.assignee,
+  overdue: filters.overdue,
+  date_field: filters.dateField,
+  // Whole local days, sent as instants so the server compares in the admin's time zone
+  date_from: filters.dateFrom ? startOfDay(parseISO(filters.dateFrom)).toISOString() : null,
+  date_to: filters.dateTo ? addDays(startOfDay(parseISO(filters.dateTo)), 1).toISOString() : null,
+  student: filters.student,
+  stale_days: filters.staleDays,
+  has_attachment: filters.hasAttachment,
+});
@@ -0,0 +1,192 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ComplaintCategory, ComplaintStatus, Profile } from "./types";
+import { CATEGORY_LABELS } from "./categories";
+import { COMPLAINT_STATUSES, STATUS_LABELS } from "./status";
+import { categorySchema, descriptionSchema, titleSchema } from "./complaintValidation";
+import { isFuture, isValid, parse, parseISO } from "date-fns";
+
+// Importing complaints kept outside BrotoRaise (e.g. an old spreadsheet).
+// Rows are checked here first so the admin can fix the file; the
+// import_complaints RPC repeats the checks and inserts all rows or none.
+
+export type ImportField =
+  | "title"
+  | "description"
+  | "category"
+  | "student_email"
+  | "created_at"
+  | "status"
+  | "resolved_at"
+  | "admin_note"
+  | "is_anonymous";
+
+interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  // Lower-case header names that map to the field automatically
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: "title", label: "Title", required: true, aliases: ["title", "subject", "summary"] },
+  { field: "description", label: "Description", required: true, aliases: ["description", "details", "complaint"] },
+  { field: "category", label: "Category", required: true, aliases: ["category", "type"] },
+  { field: "student_email", label: "Student email", required: true, aliases: ["student email", "email", "student_email"] },
+  { field: "created_at", label: "Submitted", required: false, aliases: ["submitted", "created", "created_at", "date", "timestamp"] },
+  { field: "status", label: "Status", required: false, aliases: ["status", "state"] },
+  { field: "resolved_at", label: "Resolved", required: false, aliases: ["resolved", "resolved_at", "resolved on"] },
+  { field: "admin_note", label: "Admin note", required: false, aliases: ["admin note", "admin_note", "notes", "resolution"] },
+  { field: "is_anonymous", label: "Anonymous", required: false, aliases: ["anonymous", "is_anonymous"] },
+];
+
+// At most this many rows go into one import, which runs as a single transaction
+export const IMPORT_ROW_LIMIT = 2000;
+
+// Column index in the CSV for each field, or null when not mapped
+export type ImportMapping = Record<ImportField, number | null>;
+
+// A type alias rather than an interface so rows can be sent as Json
+export type ImportComplaintRow = {
+  title: string;
+  description: string;
+  category: ComplaintCategory;
+  student_email: string;
+  created_at: string | null;
+  status: ComplaintStatus;
+  resolved_at: string | null;
+  admin_note: string | null;
+  is_anonymous: boolean;
+};
+
+export interface ImportPreviewRow {
+  // Line in the file, counting the header as line 1
+  line: number;
+  row: ImportComplaintRow | null;
+  studentName: string | null;
+  errors: string[];
+}
+
+export const guessImportMapping = (headers: string[]): ImportMapping => {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  return Object.fromEntries(
+    IMPORT_FIELDS.map(({ field, aliases }) => {
+      const index = normalized.findIndex((header) => aliases.includes(header));
+      return [field, index === -1 ? null : index];
+    })
+  ) as ImportMapping;
+};
+
+// Accepts the stored value or its label in any case, e.g. "Academic Counsellor"
+const matchOption = <T extends string>(value: string, labels: Record<T, string>): T | null => {
+  const needle = value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  const options = Object.keys(labels) as T[];
+  return (
+    options.find((option) => option === needle) ??
+    options.find((option) => labels[option].toLowerCase().replace(/[\s-]+/g, "_") === needle) ??
+    null
+  );
+};
+
+// Spreadsheets export dates in many shapes; ISO and day-first are accepted
+const DATE_FORMATS = ["dd/MM/yyyy HH:mm:ss", "dd/MM/yyyy HH:mm", "dd/MM/yyyy", "dd-MM-yyyy", "yyyy-MM-dd HH:mm"];
+
+const parseDate = (value: string) => {
+  const iso = parseISO(value);
+  if (isValid(iso)) return iso;
+  for (const dateFormat of DATE_FORMATS) {
+    const parsed = parse(value, dateFormat, new Date());
+    if (isValid(parsed)) return parsed;
+  }
+  return null;
+};
+
+const TRUE_VALUES = ["yes", "y", "true", "1"];
+const FALSE_VALUES = ["", "no", "n", "false", "0"];
+
+// Looks up profiles by email in chunks; emails are compared in lower case, as auth stores them
+export const fetchStudentsByEmail = async (emails: string[]) => {
+  const unique = [...new Set(emails.map((email) => email.trim().toLowerCase()).filter(Boolean))];
+  const students: Record<string, Pick<Profile, "id" | "full_name" | "email">> = {};
+
+  for (let i = 0; i < unique.length; i += 100) {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("id, full_name, email")
+      .in("email", unique.slice(i, i + 100));
+
+    if (error) throw error;
+    for (const profile of data) {
+      students[profile.email.toLowerCase()] = profile;
+    }
+  }
+  return students;
+};
+
+export const validateImportRows = (
+  rows: string[][],
+  mapping: ImportMapping,
+  students: Record<string, Pick<Profile, "id" | "full_name" | "email">>
+): ImportPreviewRow[] =>
+  rows.map((cells, index) => {
+    const value = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? "" : (cells[column] ?? "").trim();
+    };
+    const errors: string[] = [];
+
+    const title = titleSchema.safeParse(value("title"));
+    if (!title.success) errors.push(value("title") ? "Title is longer than 120 characters" : "Title is missing");
+
+    const description = descriptionSchema.safeParse(value("description"));
+    if (!description.success) {
+      errors.push(value("description") ? "Description is longer than 5000 characters" : "Description is missing");
+    }
+
+    const category = categorySchema.safeParse(matchOption(value("category"), CATEGORY_LABELS));
+    if (!category.success) errors.push(`Unknown category "${value("category")}"`);
+
+    const email = value("student_email").toLowerCase();
+    const student = students[email];
+    if (!email) errors.push("Student email is missing");
+    else if (!student) errors.push(`No student account for ${email}`);
+
+    const status = value("status") ? matchOption(value("status"), STATUS_LABELS) : "open";
+    if (!status || !COMPLAINT_STATUSES.includes(status)) errors.push(`Unknown status "${value("status")}"`);
+
+    const createdAt = value("created_at") ? parseDate(value("created_at")) : null;
+    if (value("created_at") && !createdAt) errors.push(`Cannot read the date "${value("created_at")}"`);
+    else if (createdAt && isFuture(createdAt)) errors.push("Submitted date is in the future");
+
+    const resolvedAt = value("resolved_at") ? parseDate(value("resolved_at")) : null;
+    if (value("resolved_at") && !resolvedAt) errors.push(`Cannot read the date "${value("resolved_at")}"`);
+    else if (resolvedAt && createdAt && resolvedAt < createdAt) errors.push("Resolved before it was submitted");
+
+    const adminNote = value("admin_note");
+    if (adminNote.length > 5000) errors.push("Admin note is longer than 5000 characters");
+
+    const anonymous = value("is_anonymous").toLowerCase();
+    if (!TRUE_VALUES.includes(anonymous) && !FALSE_VALUES.includes(anonymous)) {
+      errors.push(`Anonymous must be yes or no, not "${value("is_anonymous")}"`);
+    }
+
+    return {
+      line: index + 2,
+      studentName: student?.full_name ?? null,
+      errors,
+      row:
+        errors.length > 0
+          ? null
+          : {
+              title: title.data!,
+              description: description.data!,
+              category: category.data!,
+              student_email: email,
+              created_at: createdAt?.toISOString() ?? null,
+              status: status!,
+              resolved_at: resolvedAt?.toISOString() ?? null,
+              admin_note: adminNote || null,
+              is_anonymous: TRUE_VALUES.includes(anonymous),
+            },
+    };
+  });
@@ -0,0 +1,9 @@
+import { z } from "zod";
+import { ComplaintCategory } from "./types";
+import { COMPLAINT_CATEGORIES } from "./categories";
+
+// Field limits shared by the complaint form and the CSV import; the database
+// enforces the same lengths
+export const titleSchema = z.string().trim().min(1).max(120);
+export const descriptionSchema = z.string().trim().min(1).max(5000);
+export const categorySchema = z.enum(COMPLAINT_CATEGORIES as [ComplaintCategory, ...ComplaintCategory[]]);
@@ -0,0 +1,72 @@
+import { differenceInMinutes, formatDistanceToNowStrict } from "date-fns";
+import { Complaint } from "./types";
+import { TERMINAL_STATUSES } from "./status";
+
+export type SlaState = "on_track" | "at_risk" | "breached" | "met";
+
+export interface SlaStatus {
+  target: "first_response" | "resolution";
+  state: SlaState;
+  dueAt: Date;
+  label: string;
+}
+
+// A target is at risk once less than this share of its window remains
+const AT_RISK_SHARE = 0.2;
+
+const evaluate = (
+  target: SlaStatus["target"],
+  createdAt: Date,
+  dueAt: Date,
+  now: Date
+): SlaStatus => {
+  const name = target === "first_response" ? "Response" : "Resolution";
+  const remaining = differenceInMinutes(dueAt, now);
+
+  if (remaining < 0) {
+    return {
+      target,
+      state: "breached",
+      dueAt,
+      label: `${name} overdue by ${formatDistanceToNowStrict(dueAt)}`,
+    };
+  }
+
+  const window = Math.max(differenceInMinutes(dueAt, createdAt), 1);
+  return {
+    target,
+    state: remaining / window < AT_RISK_SHARE ? "at_risk" : "on_track",
+    dueAt,
+    label: `${name} due in ${formatDistanceToNowStrict(dueAt)}`,
+  };
+};
+
+// Returns the SLA target that currently matters for a complaint
+export const getSlaStatus = (complaint: Complaint, now = new Date()): SlaStatus | null => {
+  const createdAt = new Date(complaint.created_at);
+
+  if (TERMINAL_STATUSES.includes(complaint.status)) {
+    if (!complaint.resolve_due_at) return null;
+    const dueAt = new Date(complaint.resolve_due_at);
+    const resolvedAt = complaint.resolved_at ? new Date(complaint.resolved_at) : null;
+    return {
+      target: "resolution",
+      state: resolvedAt && resolvedAt > dueAt ? "breached" : "met",
+      dueAt,
+      label: resolvedAt && resolvedAt > dueAt ? "Resolved after SLA" : "Within SLA",
+    };
+  }
+
+  if (!complaint.first_responded_at && complaint.first_response_due_at) {
+    return evaluate("first_response", createdAt, new Date(complaint.first_response_due_at), now);
+  }
+
+  if (complaint.resolve_due_at) {
+    return evaluate("resolution", createdAt, new Date(complaint.resolve_due_at), now);
+  }
+
+  return null;
+};
+
+export const isOverdue = (complaint: Complaint, now = new Date()) =>
+  getSlaStatus(complaint, now)?.state === "breached" && !TERMINAL_STATUSES.includes(complaint.status);
@@ -0,0 +1,18 @@
+import { ComplaintStatus } from "./types";
+
+export const STATUS_LABELS: Record<ComplaintStatus, string> = {
+  open: "Open",
+  triaged: "Triaged",
+  in_progress: "In Progress",
+  waiting_on_student: "Waiting on Student",
+  escalated: "Escalated",
+  resolved: "Resolved",
+  rejected: "Rejected",
+  closed: "Closed",
+};
+
+// Lifecycle order, used for filters and status pickers
+export const COMPLAINT_STATUSES = Object.keys(STATUS_LABELS) as ComplaintStatus[];
+
+// Statuses after which staff no longer work on the complaint
+export const TERMINAL_STATUSES: ComplaintStatus[] = ["resolved", "rejected", "closed"];
@@ -1,6 +1,14 @@
-export type AppRole = "student" | "admin";
+export type AppRole = "student" | "admin" | "grievance_officer";
 export type ComplaintCategory = "mentor" | "admin" | "academic_counsellor" | "working_hub" | "peer" | "other";
-export type ComplaintStatus = "open" | "in_progress" | "resolved";
+export type ComplaintStatus =
+  | "open"
+  | "triaged"
+  | "in_progress"
+  | "waiting_on_student"
+  | "escalated"
+  | "resolved"
+  | "rejected"
+  | "closed";
 
 export interface Profile {
   id: string;
@@ -8,8 +16,11 @@ export interface Profile {
   full_name: string;
   email: string;
   is_active: boolean;
+  email_on_status_change: boolean;
+  email_on_new_complaint: boolean;
   created_at: string;
   updated_at: string;
+  roles?: AppRole[];
 }
 
 export interface Complaint {
@@ -18,12 +29,53 @@ export interface Complaint {
   title: string;
   category: ComplaintCategory;
   description: string;
-  attachment_id: string | null;
   status: ComplaintStatus;
   admin_note: string | null;
+  is_anonymous: boolean;
+  assigned_to: string | null;
+  resolved_at: string | null;
+  resolution_confirmed_at: string | null;
+  reopen_count: number;
+  first_response_due_at: string | null;
+  resolve_due_at: string | null;
+  first_responded_at: string | null;
   created_at: string;
   updated_at: string;
-  student?: Profile;
+  // Moves only when the status or admin note changes; sent back as the concurrency check
+  version?: number;
+  student?: Pick<Profile, "id" | "full_name" | "email"> | null;
+  assignee?: Pick<Profile, "id" | "full_name"> | null;
+}
+
+export interface ComplaintSettings {
+  reopen_window_days: number;
+  updated_at: string;
+}
+
+export interface ComplaintStatusTransition {
+  from_status: ComplaintStatus;
+  to_status: ComplaintStatus;
+  requires_note: boolean;
+}
+
+export interface ComplaintRoutingRule {
+  id: string;
+  category: ComplaintCategory;
+  team_name: string;
+  default_assignee_id: string | null;
+  round_robin: boolean;
+  member_ids: string[];
+  last_assigned_to: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ComplaintSlaPolicy {
+  category: ComplaintCategory;
+  first_response_hours: number;
+  resolution_hours: number;
+  updated_at: string;
 }
 
 export interface Attachment {
@@ -31,18 +83,150 @@ export interface Attachment {
   owner_user_id: string;
   complaint_id: string | null;
   original_filename: string;
-  stored_path: string;
+  // null for staff when the path would identify an anonymous student
+  stored_path: string | null;
   mime_type: string;
   byte_size: number;
   created_at: string;
+  uploader?: Pick<Profile, "id" | "full_name"> | null;
+  uploaded_by_staff?: boolean;
 }
 
+export interface ComplaintMessage {
+  id: string;
+  complaint_id: string;
+  author_user_id: string | null;
+  is_staff: boolean;
+  body: string;
+  created_at: string;
+  author?: Pick<Profile, "id" | "full_name"> | null;
+}
+
+export type ComplaintActivitySource = "complaints" | "complaint_status_history" | "complaint_messages" | "attachments";
+
+export interface ComplaintActivity {
+  complaint_id: string;
+  source: ComplaintActivitySource;
+  touched_at: string;
+}
+
+export type ComplaintHistoryEvent =
+  | "status_change"
+  | "assignment"
+  | "routing"
+  | "sla_breach"
+  | "attachment"
+  | "tag";
+
 export interface ComplaintStatusHistory {
   id: string;
   complaint_id: string;
-  changed_by_user_id: string;
+  changed_by_user_id: string | null;
+  event_type: ComplaintHistoryEvent;
   from_status: ComplaintStatus | null;
   to_status: ComplaintStatus;
+  from_assignee: string | null;
+  to_assignee: string | null;
   note_snapshot: string | null;
   changed_at: string;
-}
\ No newline at end of file
+}
+
+export interface ComplaintTag {
+  complaint_id: string;
+  tag: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type BulkComplaintAction = "status" | "assign" | "tag";
+
+export interface BulkComplaintResult {
+  complaint_id: string;
+  succeeded: boolean;
+  error_code: string | null;
+  error_message: string | null;
+}
+
+// Analytics rows; week_start is the Monday of each week in the viewer's time zone
+export interface ComplaintWeeklyVolume {
+  week_start: string;
+  category: ComplaintCategory;
+  complaint_count: number;
+}
+
+export interface ComplaintWeeklyBacklog {
+  week_start: string;
+  open_count: number;
+}
+
+// category is null on the overall row; hours are null when nothing was timed
+export interface ComplaintResponseTimes {
+  category: ComplaintCategory | null;
+  complaint_count: number;
+  responded_count: number;
+  resolved_count: number;
+  first_response_median_hours: number | null;
+  first_response_p90_hours: number | null;
+  resolve_median_hours: number | null;
+  resolve_p90_hours: number | null;
+}
+
+export interface AdminThroughput {
+  admin_id: string;
+  full_name: string;
+  complaints_handled: number;
+  status_changes: number;
+  resolved_count: number;
+}
+
+// A row of the admin user list; complaint_count leaves out anonymous complaints
+export interface ManagedUser {
+  id: string;
+  full_name: string;
+  email: string;
+  roles: AppRole[];
+  is_active: boolean;
+  created_at: string;
+  last_sign_in_at: string | null;
+  complaint_count: number;
+  assigned_open_count: number;
+}
+
+export type UserAuditAction = "grant_role" | "revoke_role" | "deactivate" | "reactivate" | "invite";
+
+export interface UserAuditEntry {
+  id: string;
+  actor_user_id: string | null;
+  target_user_id: string | null;
+  target_email: string;
+  action: UserAuditAction;
+  role: AppRole | null;
+  created_at: string;
+  actor?: Pick<Profile, "id" | "full_name"> | null;
+}
+
+export type NotificationKind = "complaint_created" | "status_change" | "assignment" | "message";
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  complaint_id: string | null;
+  kind: NotificationKind;
+  title: string;
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface SavedView {
+  id: string;
+  owner_id: string;
+  name: string;
+  filters: Record<string, string>;
+  is_shared: boolean;
+  created_at: string;
+  updated_at: string;
+  // The signed-in admin's own settings for the view
+  pinned: boolean;
+  is_default: boolean;
+}
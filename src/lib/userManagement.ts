@@ -0,0 +1,44 @@
+import { supabase } from "@/integrations/supabase/client";
+import { AppRole, UserAuditAction } from "./types";
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  student: "Student",
+  admin: "Admin",
+  grievance_officer: "Grievance Officer",
+};
+
+// Roles an admin can grant, revoke or invite someone to; everyone keeps student
+export const STAFF_ROLES: AppRole[] = ["admin", "grievance_officer"];
+
+export const AUDIT_ACTION_LABELS: Record<UserAuditAction, string> = {
+  grant_role: "Granted role",
+  revoke_role: "Revoked role",
+  deactivate: "Deactivated",
+  reactivate: "Reactivated",
+  invite: "Invited",
+};
+
+export const USER_PAGE_SIZE = 25;
+
+// Invites a member of staff through the invite-staff edge function. Resolves
+// to true when an invitation email was sent and false when an existing
+// account was given the role straight away. Failures carry the SQLSTATE code
+// so describeComplaintError can title them.
+export const inviteStaff = async (email: string, fullName: string, role: AppRole) => {
+  const { data } = await supabase.auth.getSession();
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/invite-staff`, {
+    method: "POST",
+    headers: {
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${data.session?.access_token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ email, fullName, role }),
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw Object.assign(new Error(body?.error || "The invitation could not be sent."), { code: body?.code });
+  }
+  return body?.invited === true;
+};
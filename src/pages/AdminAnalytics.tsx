@@ -0,0 +1,347 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { DateRangeFilter } from "@/components/DateRangeFilter";
+import { useToast } from "@/hooks/use-toast";
+import { describeComplaintError } from "@/lib/complaintErrors";
+import { CATEGORY_LABELS, COMPLAINT_CATEGORIES } from "@/lib/categories";
+import { toDayParam } from "@/lib/complaintFilters";
+import {
+  AdminThroughput,
+  ComplaintCategory,
+  ComplaintResponseTimes,
+  ComplaintWeeklyBacklog,
+  ComplaintWeeklyVolume,
+} from "@/lib/types";
+import { ArrowLeft } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { addDays, format, isValid, parseISO, startOfDay, startOfWeek, subWeeks } from "date-fns";
+
+const DEFAULT_WEEKS = 12;
+
+const CATEGORY_COLORS: Record<ComplaintCategory, string> = {
+  mentor: "hsl(221 83% 53%)",
+  admin: "hsl(142 71% 45%)",
+  academic_counsellor: "hsl(38 92% 50%)",
+  working_hub: "hsl(280 65% 60%)",
+  peer: "hsl(0 72% 51%)",
+  other: "hsl(215 16% 47%)",
+};
+
+const volumeChartConfig = Object.fromEntries(
+  COMPLAINT_CATEGORIES.map((category) => [
+    category,
+    { label: CATEGORY_LABELS[category], color: CATEGORY_COLORS[category] },
+  ])
+) satisfies ChartConfig;
+
+const backlogChartConfig = {
+  open_count: { label: "Open complaints", color: "hsl(221 83% 53%)" },
+} satisfies ChartConfig;
+
+const parseDay = (value: string | null) => (value && isValid(parseISO(value)) ? value : null);
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return "—";
+  return hours < 48 ? `${hours}h` : `${(hours / 24).toFixed(1)}d`;
+};
+
+const formatWeek = (week: string) => format(parseISO(week), "MMM d");
+
+interface StatCardProps {
+  title: string;
+  value: string;
+  detail: string;
+}
+
+const StatCard = ({ title, value, detail }: StatCardProps) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardDescription>{title}</CardDescription>
+      <CardTitle className="text-3xl">{value}</CardTitle>
+    </CardHeader>
+    <CardContent>
+      <p className="text-xs text-muted-foreground">{detail}</p>
+    </CardContent>
+  </Card>
+);
+
+export default function AdminAnalytics() {
+  const { user, profile, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [volume, setVolume] = useState<ComplaintWeeklyVolume[]>([]);
+  const [backlog, setBacklog] = useState<ComplaintWeeklyBacklog[]>([]);
+  const [responseTimes, setResponseTimes] = useState<ComplaintResponseTimes[]>([]);
+  const [throughput, setThroughput] = useState<AdminThroughput[]>([]);
+  const [loading, setLoading] = useState(true);
+  const latestRequest = useRef(0);
+  const isAdmin = profile?.role === "admin";
+
+  // The range lives in the URL so a report can be shared; without one the
+  // page shows the last twelve weeks
+  const dateFrom =
+    parseDay(searchParams.get("from")) ??
+    toDayParam(startOfWeek(subWeeks(new Date(), DEFAULT_WEEKS - 1), { weekStartsOn: 1 }));
+  const dateTo = parseDay(searchParams.get("to")) ?? toDayParam(new Date());
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (!user) {
+        navigate("/auth");
+      } else if (!isAdmin) {
+        navigate("/student");
+      }
+    }
+  }, [user, isAdmin, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchAnalytics();
+    }
+  }, [user, isAdmin, dateFrom, dateTo]);
+
+  const fetchAnalytics = async () => {
+    const requestId = ++latestRequest.current;
+    const range = {
+      _from: startOfDay(parseISO(dateFrom)).toISOString(),
+      _to: addDays(startOfDay(parseISO(dateTo)), 1).toISOString(),
+    };
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+    const [volumeResult, backlogResult, timesResult, throughputResult] = await Promise.all([
+      supabase.rpc("complaint_weekly_volume", { ...range, _time_zone: timeZone }),
+      supabase.rpc("complaint_weekly_backlog", { ...range, _time_zone: timeZone }),
+      supabase.rpc("complaint_response_times", range),
+      supabase.rpc("complaint_admin_throughput", range),
+    ]);
+
+    if (requestId !== latestRequest.current) return;
+
+    const error = volumeResult.error || backlogResult.error || timesResult.error || throughputResult.error;
+    if (error) {
+      toast({ variant: "destructive", ...describeComplaintError(error, "Could not load analytics", "Please try again.") });
+    } else {
+      setVolume(volumeResult.data);
+      setBacklog(backlogResult.data);
+      setResponseTimes(timesResult.data);
+      setThroughput(throughputResult.data);
+    }
+    setLoading(false);
+  };
+
+  const handleRangeChange = ({ dateFrom: from, dateTo: to }: { dateFrom?: string | null; dateTo?: string | null }) => {
+    const params = new URLSearchParams();
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    setSearchParams(params, { replace: true });
+  };
+
+  // The backlog has a row for every week in the range, so it supplies the
+  // axis; weeks without submissions still show up as empty bars
+  const weeklyVolume = useMemo(
+    () =>
+      backlog.map(({ week_start }) => {
+        const row: Record<string, string | number> = { week_start };
+        COMPLAINT_CATEGORIES.forEach((category) => {
+          row[category] =
+            volume.find((v) => v.week_start === week_start && v.category === category)?.complaint_count ?? 0;
+        });
+        return row;
+      }),
+    [backlog, volume]
+  );
+
+  const overall = responseTimes.find((r) => r.category === null);
+  const byCategory = responseTimes.filter((r) => r.category !== null);
+
+  if (authLoading || loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/admin")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">Analytics</h2>
+            <p className="text-muted-foreground">
+              Complaint volume, backlog and response times for complaints submitted in the selected range
+            </p>
+          </div>
+          <DateRangeFilter from={dateFrom} to={dateTo} onChange={handleRangeChange} />
+        </div>
+
+        <div className="mb-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <StatCard
+            title="Complaints submitted"
+            value={String(overall?.complaint_count ?? 0)}
+            detail={`${overall?.resolved_count ?? 0} resolved so far`}
+          />
+          <StatCard
+            title="Median first response"
+            value={formatHours(overall?.first_response_median_hours ?? null)}
+            detail={`p90 ${formatHours(overall?.first_response_p90_hours ?? null)} · ${overall?.responded_count ?? 0} responded`}
+          />
+          <StatCard
+            title="Median time to resolve"
+            value={formatHours(overall?.resolve_median_hours ?? null)}
+            detail={`p90 ${formatHours(overall?.resolve_p90_hours ?? null)}`}
+          />
+          <StatCard
+            title="Open at end of range"
+            value={String(backlog[backlog.length - 1]?.open_count ?? 0)}
+            detail="Not yet resolved, rejected or closed"
+          />
+        </div>
+
+        <div className="mb-6 grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Complaints per week</CardTitle>
+              <CardDescription>New complaints by category</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={volumeChartConfig} className="h-72 w-full">
+                <BarChart data={weeklyVolume}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="week_start" tickFormatter={formatWeek} tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(week) => `Week of ${formatWeek(week)}`} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {COMPLAINT_CATEGORIES.map((category) => (
+                    <Bar key={category} dataKey={category} stackId="volume" fill={`var(--color-${category})`} />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Open backlog</CardTitle>
+              <CardDescription>Complaints still open at the end of each week</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={backlogChartConfig} className="h-72 w-full">
+                <LineChart data={backlog}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="week_start" tickFormatter={formatWeek} tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(week) => `Week of ${formatWeek(week)}`} />} />
+                  <Line dataKey="open_count" type="monotone" stroke="var(--color-open_count)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Response times by category</CardTitle>
+              <CardDescription>First response is the first status change made by staff</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Complaints</TableHead>
+                    <TableHead className="text-right">First response (median / p90)</TableHead>
+                    <TableHead className="text-right">Resolve (median / p90)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {byCategory.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">
+                        No complaints in this range
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    byCategory.map((row) => (
+                      <TableRow key={row.category}>
+                        <TableCell className="font-medium">{CATEGORY_LABELS[row.category]}</TableCell>
+                        <TableCell className="text-right">{row.complaint_count}</TableCell>
+                        <TableCell className="text-right">
+                          {formatHours(row.first_response_median_hours)} / {formatHours(row.first_response_p90_hours)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatHours(row.resolve_median_hours)} / {formatHours(row.resolve_p90_hours)}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Staff throughput</CardTitle>
+              <CardDescription>Changes made by each staff member in the range</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Staff member</TableHead>
+                    <TableHead className="text-right">Complaints handled</TableHead>
+                    <TableHead className="text-right">Status changes</TableHead>
+                    <TableHead className="text-right">Resolved</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {throughput.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">
+                        No staff activity in this range
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    throughput.map((row) => (
+                      <TableRow key={row.admin_id}>
+                        <TableCell className="font-medium">{row.full_name}</TableCell>
+                        <TableCell className="text-right">{row.complaints_handled}</TableCell>
+                        <TableCell className="text-right">{row.status_changes}</TableCell>
+                        <TableCell className="text-right">{row.resolved_count}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
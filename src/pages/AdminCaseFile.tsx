@@ -0,0 +1,413 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Attachment, Complaint, ComplaintMessage, ComplaintStatusHistory } from "@/lib/types";
+import { STATUS_LABELS } from "@/lib/status";
+import { CATEGORY_LABELS } from "@/lib/categories";
+import {
+  fetchComplaintTags,
+  fromAdminAttachmentRow,
+  fromAdminComplaintRow,
+  fromAdminHistoryRow,
+  fromAdminMessageRow,
+} from "@/lib/adminComplaints";
+import { formatFileSize, getAttachmentUrl, isImageAttachment } from "@/lib/attachments";
+import { useStaffMembers } from "@/hooks/use-staff";
+import { ArrowLeft, Printer } from "lucide-react";
+import { format } from "date-fns";
+
+const REDACTED = "[redacted]";
+
+// Signed image URLs must outlive the print dialog
+const IMAGE_URL_EXPIRY = 60 * 60;
+
+const formatDate = (value: string | null) => (value ? format(new Date(value), "PPp") : "—");
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+interface FieldProps {
+  label: string;
+  children: React.ReactNode;
+}
+
+const Field = ({ label, children }: FieldProps) => (
+  <div>
+    <dt className="text-xs uppercase tracking-wide text-muted-foreground">{label}</dt>
+    <dd className="text-sm">{children}</dd>
+  </div>
+);
+
+interface SectionProps {
+  title: string;
+  children: React.ReactNode;
+}
+
+const Section = ({ title, children }: SectionProps) => (
+  <section className="mt-8 break-inside-avoid-page">
+    <h2 className="mb-3 border-b pb-1 text-lg font-semibold">{title}</h2>
+    {children}
+  </section>
+);
+
+// A formal, printable record of one complaint. The browser's print dialog
+// turns it into a PDF; with ?redact=1 the student's email, full name and each
+// part of the name are removed from every field, including free text and
+// messages that mention them.
+export default function AdminCaseFile() {
+  const { id } = useParams<{ id: string }>();
+  const { user, profile, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [complaint, setComplaint] = useState<Complaint | null>(null);
+  const [history, setHistory] = useState<ComplaintStatusHistory[]>([]);
+  const [messages, setMessages] = useState<ComplaintMessage[]>([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+  const [settledImages, setSettledImages] = useState<string[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generatedAt] = useState(() => new Date().toISOString());
+  const isAdmin = profile?.role === "admin";
+  const { staff } = useStaffMembers(isAdmin);
+  const redact = searchParams.get("redact") === "1";
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (!user) {
+        navigate("/auth");
+      } else if (!isAdmin) {
+        navigate("/student");
+      }
+    }
+  }, [user, isAdmin, authLoading, navigate]);
+
+  useEffect(() => {
+    if (id && user && isAdmin) {
+      fetchCaseFile();
+    }
+  }, [id, user, isAdmin]);
+
+  const fetchCaseFile = async () => {
+    const [complaintResult, historyResult, messageResult, attachmentResult, tagsByComplaint] = await Promise.all([
+      supabase.from("admin_complaints").select("*").eq("id", id).maybeSingle(),
+      supabase
+        .from("admin_complaint_history")
+        .select("*")
+        .eq("complaint_id", id)
+        .order("changed_at", { ascending: true }),
+      supabase
+        .from("admin_complaint_messages")
+        .select("*")
+        .eq("complaint_id", id)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("admin_attachments")
+        .select("*")
+        .eq("complaint_id", id)
+        .order("created_at", { ascending: true }),
+      fetchComplaintTags([id!]).catch(() => ({})),
+    ]);
+
+    if (!complaintResult.error && complaintResult.data) {
+      setComplaint(fromAdminComplaintRow(complaintResult.data));
+    }
+    if (!historyResult.error && historyResult.data) {
+      setHistory(historyResult.data.map(fromAdminHistoryRow));
+    }
+    if (!messageResult.error && messageResult.data) {
+      setMessages(messageResult.data.map(fromAdminMessageRow));
+    }
+    setTags(tagsByComplaint[id!] ?? []);
+    setLoading(false);
+
+    if (!attachmentResult.error && attachmentResult.data) {
+      const items = attachmentResult.data.map(fromAdminAttachmentRow);
+      setAttachments(items);
+
+      const entries = await Promise.all(
+        items.filter(isImageAttachment).map(async (item) => {
+          try {
+            return [item.id, await getAttachmentUrl(item, IMAGE_URL_EXPIRY)] as const;
+          } catch {
+            return null;
+          }
+        })
+      );
+      setImageUrls(Object.fromEntries(entries.filter((entry) => entry !== null)));
+    }
+  };
+
+  const setRedact = (checked: boolean) => {
+    setSearchParams(checked ? { redact: "1" } : {}, { replace: true });
+  };
+
+  const markImageSettled = (attachmentId: string) => {
+    setSettledImages((prev) => (prev.includes(attachmentId) ? prev : [...prev, attachmentId]));
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (!complaint) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <p>Complaint not found</p>
+      </div>
+    );
+  }
+
+  const student = complaint.student;
+  // Whole values first so a full match is not redacted piece by piece; each
+  // part only matches as a whole word so "Al" leaves "Also" alone
+  const identityPatterns = redact && student
+    ? [student.email, student.full_name, ...student.full_name.split(/\s+/)]
+        .map((value) => value.trim())
+        .filter((value) => value.length > 1)
+        .map((value) => `(?<![\\p{L}\\p{N}])${escapeRegExp(value)}(?![\\p{L}\\p{N}])`)
+    : [];
+  const identityRegExp = identityPatterns.length > 0 ? new RegExp(identityPatterns.join("|"), "giu") : null;
+  const clean = (text: string | null) => (text && identityRegExp ? text.replace(identityRegExp, REDACTED) : text);
+
+  const staffNames = Object.fromEntries(staff.map((member) => [member.id, member.full_name]));
+  const staffName = (userId: string | null) => (userId ? staffNames[userId] || "Staff member" : "—");
+
+  const actorName = (entry: ComplaintStatusHistory) => {
+    if (entry.event_type === "routing" || entry.event_type === "sla_breach" || !entry.changed_by_user_id) {
+      return "System";
+    }
+    if (staffNames[entry.changed_by_user_id]) return staffNames[entry.changed_by_user_id];
+    return entry.changed_by_user_id === complaint.student_id && !redact && student ? student.full_name : "Student";
+  };
+
+  const describeEvent = (entry: ComplaintStatusHistory) => {
+    switch (entry.event_type) {
+      case "assignment":
+        return entry.to_assignee ? `Assigned to ${staffName(entry.to_assignee)}` : "Unassigned";
+      case "routing":
+        return entry.to_assignee ? `Auto-assigned to ${staffName(entry.to_assignee)}` : "Routed";
+      case "sla_breach":
+        return "SLA breached";
+      case "attachment":
+        return "Attachment added";
+      case "tag":
+        return `Tagged "${entry.note_snapshot}"`;
+      default:
+        return entry.from_status
+          ? `${STATUS_LABELS[entry.from_status]} → ${STATUS_LABELS[entry.to_status]}`
+          : `Submitted as ${STATUS_LABELS[entry.to_status]}`;
+    }
+  };
+
+  const messageAuthor = (message: ComplaintMessage) =>
+    message.is_staff
+      ? message.author?.full_name || "Staff member"
+      : redact || !message.author
+        ? "Student"
+        : message.author.full_name;
+
+  const uploaderName = (attachment: Attachment) =>
+    attachment.uploaded_by_staff
+      ? attachment.uploader?.full_name || "Staff member"
+      : redact || !attachment.uploader
+        ? "Student"
+        : attachment.uploader.full_name;
+
+  const images = attachments.filter((attachment) => imageUrls[attachment.id]);
+  const imagesReady = images.every((attachment) => settledImages.includes(attachment.id));
+
+  return (
+    <div className="min-h-screen bg-background print:bg-white">
+      <header className="border-b bg-card print:hidden">
+        <div className="container mx-auto flex flex-wrap items-center justify-between gap-4 px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate(`/admin/complaint/${complaint.id}`)}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Complaint
+          </Button>
+          <div className="flex items-center gap-6">
+            <div className="flex items-center gap-2">
+              <Switch id="redact-identity" checked={redact} onCheckedChange={setRedact} />
+              <Label htmlFor="redact-identity">Redact student identity</Label>
+            </div>
+            <Button onClick={() => window.print()} disabled={!imagesReady}>
+              <Printer className="mr-2 h-4 w-4" />
+              {imagesReady ? "Save as PDF" : "Loading images..."}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-3xl px-4 py-8 print:max-w-none print:p-0">
+        <div className="flex items-start justify-between gap-4 border-b pb-4">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-muted-foreground">BrotoRaise case file</p>
+            <h1 className="text-2xl font-bold">{clean(complaint.title)}</h1>
+            <p className="text-sm text-muted-foreground">Complaint {complaint.id}</p>
+          </div>
+          <div className="text-right text-xs text-muted-foreground">
+            <p>Generated {formatDate(generatedAt)}</p>
+            <p>by {profile?.full_name}</p>
+            {redact && <p className="mt-1 font-semibold text-foreground">Student identity redacted</p>}
+          </div>
+        </div>
+
+        <Section title="Complaint">
+          <dl className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+            <Field label="Category">{CATEGORY_LABELS[complaint.category]}</Field>
+            <Field label="Status">{STATUS_LABELS[complaint.status]}</Field>
+            <Field label="Assignee">{complaint.assignee?.full_name || "Unassigned"}</Field>
+            <Field label="Submitted">{formatDate(complaint.created_at)}</Field>
+            <Field label="First response">{formatDate(complaint.first_responded_at)}</Field>
+            <Field label="Resolve by">{formatDate(complaint.resolve_due_at)}</Field>
+            <Field label="Resolved">{formatDate(complaint.resolved_at)}</Field>
+            <Field label="Resolution confirmed">{formatDate(complaint.resolution_confirmed_at)}</Field>
+            <Field label="Times reopened">{complaint.reopen_count}</Field>
+            <Field label="Last updated">{formatDate(complaint.updated_at)}</Field>
+            <Field label="Tags">{tags.length > 0 ? tags.join(", ") : "—"}</Field>
+          </dl>
+        </Section>
+
+        <Section title="Student">
+          {!student ? (
+            <p className="text-sm">Submitted anonymously</p>
+          ) : redact ? (
+            <p className="text-sm">{REDACTED}</p>
+          ) : (
+            <dl className="grid grid-cols-2 gap-4">
+              <Field label="Name">{student.full_name}</Field>
+              <Field label="Email">{student.email}</Field>
+            </dl>
+          )}
+        </Section>
+
+        <Section title="Description">
+          <p className="whitespace-pre-wrap text-sm">{clean(complaint.description)}</p>
+        </Section>
+
+        <Section title="Admin note">
+          <p className="whitespace-pre-wrap text-sm">{clean(complaint.admin_note) || "No admin note"}</p>
+        </Section>
+
+        <Section title="Status timeline">
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No history recorded</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-44">Date</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Note</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((entry) => (
+                  <TableRow key={entry.id} className="break-inside-avoid">
+                    <TableCell className="align-top">{formatDate(entry.changed_at)}</TableCell>
+                    <TableCell className="align-top">{describeEvent(entry)}</TableCell>
+                    <TableCell className="align-top">{actorName(entry)}</TableCell>
+                    <TableCell className="whitespace-pre-wrap align-top">
+                      {entry.event_type === "tag" ? "" : clean(entry.note_snapshot)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Section>
+
+        <Section title="Conversation">
+          {messages.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No messages</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-44">Date</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>Message</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {messages.map((message) => (
+                  <TableRow key={message.id} className="break-inside-avoid">
+                    <TableCell className="align-top">{formatDate(message.created_at)}</TableCell>
+                    <TableCell className="align-top">{messageAuthor(message)}</TableCell>
+                    <TableCell className="whitespace-pre-wrap align-top">{clean(message.body)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Section>
+
+        <Section title="Attachments">
+          {attachments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No attachments</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">#</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead>Uploaded by</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attachments.map((attachment, index) => (
+                  <TableRow key={attachment.id} className="break-inside-avoid">
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell className="break-all">{clean(attachment.original_filename)}</TableCell>
+                    <TableCell>{attachment.mime_type}</TableCell>
+                    <TableCell>{formatFileSize(attachment.byte_size)}</TableCell>
+                    <TableCell>{uploaderName(attachment)}</TableCell>
+                    <TableCell>{formatDate(attachment.created_at)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Section>
+
+        {images.length > 0 && (
+          <Section title="Attached images">
+            {redact && (
+              <p className="mb-4 text-xs text-muted-foreground">
+                Images are included as uploaded and are not redacted.
+              </p>
+            )}
+            <div className="space-y-6">
+              {images.map((attachment) => (
+                <figure key={attachment.id} className="break-inside-avoid">
+                  <img
+                    src={imageUrls[attachment.id]}
+                    alt={clean(attachment.original_filename) ?? ""}
+                    className="max-h-[70vh] max-w-full rounded border object-contain print:max-h-[220mm]"
+                    onLoad={() => markImageSettled(attachment.id)}
+                    onError={() => markImageSettled(attachment.id)}
+                  />
+                  <figcaption className="mt-1 text-xs text-muted-foreground">
+                    Attachment {attachments.indexOf(attachment) + 1}: {clean(attachment.original_filename)}
+                  </figcaption>
+                </figure>
+              ))}
+            </div>
+          </Section>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -3,15 +3,29 @@ import { useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/lib/auth";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { StatusBadge } from "@/components/StatusBadge";
-import { Complaint, ComplaintStatusHistory, ComplaintStatus } from "@/lib/types";
-import { ArrowLeft, Download, Clock, Save } from "lucide-react";
+import { SlaIndicator } from "@/components/SlaIndicator";
+import { ComplaintThread } from "@/components/ComplaintThread";
+import { AssignmentCard } from "@/components/AssignmentCard";
+import { StatusTimeline } from "@/components/StatusTimeline";
+import { IdentityReveal } from "@/components/IdentityReveal";
+import { AttachmentList } from "@/components/AttachmentList";
+import { ComplaintConflictDialog } from "@/components/ComplaintConflictDialog";
+import { Complaint, ComplaintStatusHistory, ComplaintStatus, ComplaintStatusTransition } from "@/lib/types";
+import { STATUS_LABELS } from "@/lib/status";
+import { CATEGORY_LABELS } from "@/lib/categories";
+import { fromAdminComplaintRow, fromAdminHistoryRow } from "@/lib/adminComplaints";
+import { describeComplaintError, getComplaintErrorKind } from "@/lib/complaintErrors";
+import { ArrowLeft, EyeOff, FileText, Save } from "lucide-react";
 import { formatDistanceToNow, format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { useStaffMembers } from "@/hooks/use-staff";
+import { useComplaintActivity, useRecentlyUpdated } from "@/hooks/use-complaint-activity";
 import { Separator } from "@/components/ui/separator";
 
 export default function AdminComplaintDetail() {
@@ -25,6 +39,14 @@ export default function AdminComplaintDetail() {
   const [saving, setSaving] = useState(false);
   const [status, setStatus] = useState<ComplaintStatus>("open");
   const [adminNote, setAdminNote] = useState("");
+  const [transitions, setTransitions] = useState<ComplaintStatusTransition[]>([]);
+  const [revealedStudent, setRevealedStudent] = useState<Complaint["student"]>(null);
+  const [studentActive, setStudentActive] = useState<boolean | null>(null);
+  // The version the status form was loaded from, sent back as the concurrency check
+  const [baseline, setBaseline] = useState<Pick<Complaint, "status" | "admin_note" | "version"> | null>(null);
+  const [conflict, setConflict] = useState<Complaint | null>(null);
+  const { staff } = useStaffMembers();
+  const { isRecent, markUpdated } = useRecentlyUpdated();
 
   useEffect(() => {
     if (id) {
@@ -34,74 +56,130 @@ export default function AdminComplaintDetail() {
   }, [id]);
 
   useEffect(() => {
-    if (complaint) {
-      setStatus(complaint.status);
-      setAdminNote(complaint.admin_note || "");
+    fetchTransitions();
+  }, []);
+
+  // Only looked up once the student is known, so anonymous complaints reveal nothing
+  const studentId = complaint?.student?.id ?? revealedStudent?.id;
+  useEffect(() => {
+    setStudentActive(null);
+    if (studentId) {
+      supabase
+        .from("profiles")
+        .select("is_active")
+        .eq("id", studentId)
+        .maybeSingle()
+        .then(({ data }) => setStudentActive(data?.is_active ?? null));
+    }
+  }, [studentId]);
+
+  const isDirty =
+    !!baseline && (status !== baseline.status || adminNote !== (baseline.admin_note || ""));
+
+  // Follow live updates, but never overwrite edits the admin has not saved yet
+  useEffect(() => {
+    if (complaint && !isDirty) {
+      loadForm(complaint);
     }
   }, [complaint]);
 
+  const loadForm = (source: Complaint) => {
+    setStatus(source.status);
+    setAdminNote(source.admin_note || "");
+    setBaseline({ status: source.status, admin_note: source.admin_note, version: source.version });
+  };
+
   const fetchComplaint = async () => {
     const { data, error } = await supabase
-      .from("complaints")
-      .select(`
-        *,
-        student:student_id (
-          id,
-          full_name,
-          email
-        )
-      `)
+      .from("admin_complaints")
+      .select("*")
       .eq("id", id)
-      .single();
+      .maybeSingle();
 
     if (!error && data) {
-      setComplaint(data as Complaint);
+      setComplaint(fromAdminComplaintRow(data));
     }
     setLoading(false);
   };
 
   const fetchHistory = async () => {
     const { data, error } = await supabase
-      .from("complaint_status_history")
+      .from("admin_complaint_history")
       .select("*")
       .eq("complaint_id", id)
       .order("changed_at", { ascending: true });
 
     if (!error && data) {
-      setHistory(data);
+      setHistory(data.map(fromAdminHistoryRow));
     }
   };
 
-  const handleSave = async () => {
-    if (status === "resolved" && !adminNote.trim()) {
-      toast({
-        variant: "destructive",
-        title: "Note required",
-        description: "Please provide an admin note when resolving a complaint.",
-      });
-      return;
+  const refresh = () => {
+    fetchComplaint();
+    fetchHistory();
+  };
+
+  useComplaintActivity(
+    `admin-complaint:${id}`,
+    (activity) => {
+      if (activity.source === "complaints" || activity.source === "complaint_status_history") {
+        refresh();
+        markUpdated(activity.complaint_id);
+      }
+    },
+    { complaintId: id, enabled: !!id }
+  );
+
+  const fetchTransitions = async () => {
+    const { data, error } = await supabase
+      .from("complaint_status_transitions")
+      .select("*");
+
+    if (!error && data) {
+      setTransitions(data);
     }
+  };
 
-    // Validate status transition
-    if (complaint?.status === "resolved") {
-      toast({
-        variant: "destructive",
-        title: "Cannot update",
-        description: "Resolved complaints cannot be modified.",
-      });
-      return;
+  const handleSave = async () => {
+    if (!complaint || !baseline) return;
+
+    // Mirror the server-side transition rules for a friendlier error
+    if (status !== baseline.status) {
+      const transition = transitions.find(
+        (t) => t.from_status === baseline.status && t.to_status === status
+      );
+
+      if (!transition) {
+        toast({
+          variant: "destructive",
+          title: "Cannot update",
+          description: `A ${STATUS_LABELS[baseline.status]} complaint cannot be moved to ${STATUS_LABELS[status]}.`,
+        });
+        return;
+      }
+
+      // The note has to be written for this change, as the server checks
+      if (transition.requires_note && (!adminNote.trim() || adminNote.trim() === (complaint.admin_note || "").trim())) {
+        toast({
+          variant: "destructive",
+          title: "Note required",
+          description: status === "rejected"
+            ? "Please provide a reason when rejecting a complaint."
+            : `Please provide an admin note when moving a complaint to ${STATUS_LABELS[status]}.`,
+        });
+        return;
+      }
     }
 
     setSaving(true);
 
     try {
-      const { error } = await supabase
-        .from("complaints")
-        .update({
-          status,
-          admin_note: adminNote.trim() || null,
-        })
-        .eq("id", id);
+      const { error } = await supabase.rpc("update_complaint_status", {
+        _complaint_id: complaint.id,
+        _to_status: status,
+        _note: adminNote.trim(),
+        _expected_version: baseline.version,
+      });
 
       if (error) throw error;
 
@@ -110,46 +188,53 @@ export default function AdminComplaintDetail() {
         description: "Complaint has been updated.",
       });
 
-      // Refresh data
-      fetchComplaint();
-      fetchHistory();
-    } catch (error: any) {
+      // Refresh data; the form reloads from the saved version
+      setBaseline(null);
+      refresh();
+    } catch (error) {
+      if (getComplaintErrorKind(error) === "stale_update") {
+        await showConflict();
+        return;
+      }
       toast({
         variant: "destructive",
-        title: "Update failed",
-        description: error.message || "Failed to update complaint.",
+        ...describeComplaintError(error, "Update failed", "Failed to update complaint."),
       });
     } finally {
       setSaving(false);
     }
   };
 
-  const downloadAttachment = async () => {
-    if (!complaint?.attachment_id) return;
+  // Another admin saved first: load their version and let this admin choose
+  const showConflict = async () => {
+    const { data } = await supabase
+      .from("admin_complaints")
+      .select("*")
+      .eq("id", complaint!.id)
+      .maybeSingle();
 
-    try {
-      const { data: attachmentData } = await supabase
-        .from("attachments")
-        .select("*")
-        .eq("id", complaint.attachment_id)
-        .single();
-
-      if (attachmentData) {
-        const { data } = await supabase.storage
-          .from("complaint-attachments")
-          .download(attachmentData.stored_path);
-
-        if (data) {
-          const url = URL.createObjectURL(data);
-          const a = document.createElement("a");
-          a.href = url;
-          a.download = attachmentData.original_filename;
-          a.click();
-        }
-      }
-    } catch (error) {
-      console.error("Error downloading file:", error);
+    fetchHistory();
+    if (data) {
+      const latest = fromAdminComplaintRow(data);
+      setConflict(latest);
+      setComplaint(latest);
+    }
+  };
+
+  const applyTheirVersion = () => {
+    if (conflict) loadForm(conflict);
+    setConflict(null);
+  };
+
+  const keepMyEdits = () => {
+    if (conflict) {
+      setBaseline({ status: conflict.status, admin_note: conflict.admin_note, version: conflict.version });
+      toast({
+        title: "Your edits are kept",
+        description: "Review them against the latest version and save again.",
+      });
     }
+    setConflict(null);
   };
 
   if (loading) {
@@ -168,26 +253,28 @@ export default function AdminComplaintDetail() {
     );
   }
 
-  const categoryLabels: Record<string, string> = {
-    mentor: "Mentor",
-    admin: "Admin",
-    academic_counsellor: "Academic Counsellor",
-    working_hub: "Working Hub",
-    peer: "Peer",
-    other: "Other",
-  };
-
-  const hasChanges = status !== complaint.status || adminNote !== (complaint.admin_note || "");
-  const isResolved = complaint.status === "resolved";
+  const staffNames = Object.fromEntries(staff.map((member) => [member.id, member.full_name]));
+  const lastChange = [...history].reverse().find((entry) => entry.event_type === "status_change");
+  const fromStatus = baseline?.status ?? complaint.status;
+  const allowedTransitions = transitions.filter((t) => t.from_status === fromStatus);
+  const selectedTransition = allowedTransitions.find((t) => t.to_status === status);
+  const noteRequired = !!selectedTransition?.requires_note;
+  const isLocked = complaint.status === "closed" || !!complaint.resolution_confirmed_at;
+  const isGrievanceOfficer = !!profile?.roles?.includes("grievance_officer");
+  const student = complaint.student || revealedStudent;
 
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card">
-        <div className="container mx-auto px-4 py-4">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
           <Button variant="ghost" onClick={() => navigate("/admin")}>
             <ArrowLeft className="mr-2 h-4 w-4" />
             Back to Dashboard
           </Button>
+          <Button variant="outline" onClick={() => navigate(`/admin/complaint/${complaint.id}/case-file`)}>
+            <FileText className="mr-2 h-4 w-4" />
+            Export case file
+          </Button>
         </div>
       </header>
 
@@ -200,21 +287,56 @@ export default function AdminComplaintDetail() {
                   <div className="space-y-1 flex-1">
                     <CardTitle className="text-2xl">{complaint.title}</CardTitle>
                     <CardDescription className="flex items-center gap-4">
-                      <span>{categoryLabels[complaint.category]}</span>
+                      <span>{CATEGORY_LABELS[complaint.category]}</span>
                       <span>•</span>
                       <span>Submitted {formatDistanceToNow(new Date(complaint.created_at), { addSuffix: true })}</span>
+                      {complaint.reopen_count > 0 && (
+                        <>
+                          <span>•</span>
+                          <span>Reopened {complaint.reopen_count}×</span>
+                        </>
+                      )}
                     </CardDescription>
                   </div>
-                  <StatusBadge status={complaint.status} />
+                  <div className="flex flex-col items-end gap-2">
+                    {isRecent(complaint.id) && (
+                      <span className="text-xs font-medium text-primary">Updated just now</span>
+                    )}
+                    <StatusBadge status={complaint.status} />
+                    <SlaIndicator complaint={complaint} />
+                  </div>
                 </div>
               </CardHeader>
               <CardContent className="space-y-6">
                 <div>
                   <h3 className="text-sm font-semibold mb-2">Student Information</h3>
-                  <div className="text-sm text-muted-foreground">
-                    <p className="font-medium text-foreground">{complaint.student?.full_name}</p>
-                    <p>{complaint.student?.email}</p>
-                  </div>
+                  {student ? (
+                    <div className="text-sm text-muted-foreground">
+                      <p className="flex items-center gap-2 font-medium text-foreground">
+                        {student.full_name}
+                        {studentActive === false && <Badge variant="destructive">Account inactive</Badge>}
+                      </p>
+                      <p>{student.email}</p>
+                      {studentActive === false && (
+                        <p className="mt-1 text-xs">
+                          This account has been deactivated, so the student cannot sign in to see updates
+                        </p>
+                      )}
+                      {revealedStudent && (
+                        <p className="mt-1 text-xs">Revealed to you — this access has been logged</p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <EyeOff className="h-4 w-4" />
+                        Submitted anonymously
+                      </p>
+                      {isGrievanceOfficer && (
+                        <IdentityReveal complaintId={complaint.id} onRevealed={setRevealedStudent} />
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 <Separator />
@@ -226,127 +348,103 @@ export default function AdminComplaintDetail() {
                   </p>
                 </div>
 
-                {complaint.attachment_id && (
-                  <>
-                    <Separator />
-                    <div>
-                      <h3 className="text-sm font-semibold mb-2">Attachment</h3>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={downloadAttachment}
-                        className="gap-2"
-                      >
-                        <Download className="h-4 w-4" />
-                        Download Attachment
-                      </Button>
-                    </div>
-                  </>
-                )}
+                <Separator />
+
+                <AttachmentList
+                  complaintId={complaint.id}
+                  viewer="admin"
+                  canUpload={complaint.assigned_to === user?.id && complaint.status !== "closed"}
+                  onUploaded={fetchHistory}
+                />
               </CardContent>
             </Card>
 
-            {history.length > 0 && (
+            <ComplaintThread complaintId={complaint.id} viewer="admin" />
+
+            <StatusTimeline history={history} viewer="admin" staffNames={staffNames} />
+          </div>
+
+          <div className="lg:col-span-1">
+            <div className="sticky top-4 space-y-6">
+              <AssignmentCard complaint={complaint} staff={staff} onAssigned={refresh} />
+
               <Card>
                 <CardHeader>
-                  <CardTitle className="text-xl">Status History</CardTitle>
+                  <CardTitle>Update Status</CardTitle>
+                  <CardDescription>
+                    Change complaint status and add resolution notes
+                  </CardDescription>
                 </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    {history.map((entry, index) => (
-                      <div key={entry.id} className="flex gap-4">
-                        <div className="flex flex-col items-center">
-                          <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary/10">
-                            <Clock className="h-4 w-4 text-primary" />
-                          </div>
-                          {index < history.length - 1 && (
-                            <div className="h-full w-px bg-border mt-2" />
-                          )}
-                        </div>
-                        <div className="flex-1 pb-4">
-                          <div className="flex items-center gap-2 mb-1">
-                            <StatusBadge status={entry.to_status} />
-                            <span className="text-sm text-muted-foreground">
-                              {format(new Date(entry.changed_at), "PPp")}
-                            </span>
-                          </div>
-                          {entry.note_snapshot && (
-                            <p className="text-sm text-muted-foreground mt-2">
-                              {entry.note_snapshot}
-                            </p>
-                          )}
-                        </div>
-                      </div>
-                    ))}
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="status">Status</Label>
+                    <Select
+                      value={status}
+                      onValueChange={(value) => setStatus(value as ComplaintStatus)}
+                      disabled={isLocked || saving}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={fromStatus}>{STATUS_LABELS[fromStatus]}</SelectItem>
+                        {allowedTransitions.map((t) => (
+                          <SelectItem key={t.to_status} value={t.to_status}>
+                            {STATUS_LABELS[t.to_status]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {isLocked && (
+                      <p className="text-xs text-muted-foreground">
+                        {complaint.resolution_confirmed_at
+                          ? `Resolution confirmed by the student on ${format(new Date(complaint.resolution_confirmed_at), "PPp")}`
+                          : "Closed complaints cannot be modified"}
+                      </p>
+                    )}
                   </div>
-                </CardContent>
-              </Card>
-            )}
-          </div>
 
-          <div className="lg:col-span-1">
-            <Card className="sticky top-4">
-              <CardHeader>
-                <CardTitle>Update Status</CardTitle>
-                <CardDescription>
-                  Change complaint status and add resolution notes
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="status">Status</Label>
-                  <Select
-                    value={status}
-                    onValueChange={(value) => setStatus(value as ComplaintStatus)}
-                    disabled={isResolved || saving}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="open">Open</SelectItem>
-                      <SelectItem value="in_progress">In Progress</SelectItem>
-                      <SelectItem value="resolved">Resolved</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  {isResolved && (
+                  <div className="space-y-2">
+                    <Label htmlFor="admin-note">
+                      {status === "rejected" && noteRequired ? "Rejection Reason" : "Admin Note"}{" "}
+                      {noteRequired && <span className="text-destructive">*</span>}
+                    </Label>
+                    <Textarea
+                      id="admin-note"
+                      placeholder="Add resolution notes or updates..."
+                      value={adminNote}
+                      onChange={(e) => setAdminNote(e.target.value)}
+                      disabled={isLocked || saving}
+                      rows={6}
+                      maxLength={5000}
+                    />
                     <p className="text-xs text-muted-foreground">
-                      Resolved complaints cannot be modified
+                      {adminNote.length}/5000 characters
                     </p>
-                  )}
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="admin-note">
-                    Admin Note {status === "resolved" && <span className="text-destructive">*</span>}
-                  </Label>
-                  <Textarea
-                    id="admin-note"
-                    placeholder="Add resolution notes or updates..."
-                    value={adminNote}
-                    onChange={(e) => setAdminNote(e.target.value)}
-                    disabled={isResolved || saving}
-                    rows={6}
-                    maxLength={5000}
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    {adminNote.length}/5000 characters
-                  </p>
-                </div>
+                  </div>
 
-                <Button
-                  className="w-full"
-                  onClick={handleSave}
-                  disabled={!hasChanges || isResolved || saving}
-                >
-                  <Save className="mr-2 h-4 w-4" />
-                  {saving ? "Saving..." : "Save Changes"}
-                </Button>
-              </CardContent>
-            </Card>
+                  <Button
+                    className="w-full"
+                    onClick={handleSave}
+                    disabled={!isDirty || isLocked || saving}
+                  >
+                    <Save className="mr-2 h-4 w-4" />
+                    {saving ? "Saving..." : "Save Changes"}
+                  </Button>
+                </CardContent>
+              </Card>
+            </div>
           </div>
         </div>
       </main>
+
+      <ComplaintConflictDialog
+        theirs={conflict}
+        mine={{ status, note: adminNote }}
+        changedBy={lastChange?.changed_by_user_id ? staffNames[lastChange.changed_by_user_id] : null}
+        onUseTheirs={applyTheirVersion}
+        onKeepMine={keepMyEdits}
+      />
     </div>
   );
 }
\ No newline at end of file
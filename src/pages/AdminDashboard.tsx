@@ -1,26 +1,128 @@
-import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/lib/auth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Toggle } from "@/components/ui/toggle";
 import { StatusBadge } from "@/components/StatusBadge";
-import { Complaint, Profile } from "@/lib/types";
-import { LogOut, Search, Filter } from "lucide-react";
+import { SlaIndicator } from "@/components/SlaIndicator";
+import { NotificationBell } from "@/components/NotificationBell";
+import { EmailPreferences } from "@/components/EmailPreferences";
+import { ListPagination } from "@/components/ListPagination";
+import { SearchHighlight } from "@/components/SearchHighlight";
+import { SavedViewTabs } from "@/components/SavedViewTabs";
+import { DateRangeFilter } from "@/components/DateRangeFilter";
+import { StudentPicker } from "@/components/StudentPicker";
+import { BulkActionBar } from "@/components/BulkActionBar";
+import { ComplaintExportMenu } from "@/components/ComplaintExportMenu";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  ComplaintSearchResult,
+  fetchAdminComplaintsByIds,
+  fetchComplaintTags,
+  fromComplaintSearchRow,
+} from "@/lib/adminComplaints";
+import { downloadFile, exportFilename, toComplaintCsv } from "@/lib/complaintExport";
+import { useComplaintActivity, useRecentlyUpdated } from "@/hooks/use-complaint-activity";
+import { useSavedViews } from "@/hooks/use-saved-views";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { COMPLAINT_STATUSES, STATUS_LABELS } from "@/lib/status";
+import { CATEGORY_LABELS, COMPLAINT_CATEGORIES } from "@/lib/categories";
+import {
+  COMPLAINT_PAGE_SIZE,
+  DEFAULT_COMPLAINT_FILTERS,
+  ComplaintListFilters,
+  ComplaintSortColumn,
+  parseComplaintFilters,
+  toComplaintSearchArgs,
+  toComplaintSearchParams,
+  withSearch,
+} from "@/lib/complaintFilters";
+import {
+  LogOut,
+  Search,
+  Filter,
+  UserCheck,
+  Route,
+  AlertTriangle,
+  EyeOff,
+  ArrowUpDown,
+  ArrowUp,
+  ArrowDown,
+  Paperclip,
+  Clock,
+  X,
+  BarChart3,
+  Upload,
+  Users,
+} from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 
+// Table header that toggles server-side sorting on its column
+function SortableHead({
+  column,
+  label,
+  filters,
+  onSort,
+}: {
+  column: ComplaintSortColumn;
+  label: string;
+  filters: ComplaintListFilters;
+  onSort: (column: ComplaintSortColumn) => void;
+}) {
+  const active = filters.sort === column;
+  const Icon = !active ? ArrowUpDown : filters.ascending ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead aria-sort={active ? (filters.ascending ? "ascending" : "descending") : undefined}>
+      <button
+        type="button"
+        className={cn("inline-flex items-center gap-1 hover:text-foreground", active && "text-foreground")}
+        onClick={() => onSort(column)}
+      >
+        {label}
+        <Icon className={cn("h-3 w-3", !active && "opacity-50")} />
+      </button>
+    </TableHead>
+  );
+}
+
+const BULK_SELECTION_LIMIT = 500;
+
 export default function AdminDashboard() {
   const { user, profile, loading: authLoading, signOut } = useAuth();
   const navigate = useNavigate();
-  const [complaints, setComplaints] = useState<Complaint[]>([]);
-  const [filteredComplaints, setFilteredComplaints] = useState<Complaint[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseComplaintFilters(searchParams), [searchParams]);
+  const [complaints, setComplaints] = useState<ComplaintSearchResult[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [categoryFilter, setCategoryFilter] = useState<string>("all");
+  const [fetching, setFetching] = useState(false);
+  const [searchInput, setSearchInput] = useState(filters.search);
+  const latestRequest = useRef(0);
+  const savedViews = useSavedViews(!!user && profile?.role === "admin");
+  // Set once the admin's default view has been applied (or there is none)
+  const [viewReady, setViewReady] = useState(false);
+  const [tagsByComplaint, setTagsByComplaint] = useState<Record<string, string[]>>({});
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [selectingAll, setSelectingAll] = useState(false);
+  const { toast } = useToast();
+  const { isRecent, markUpdated } = useRecentlyUpdated();
+  const pageCount = Math.max(1, Math.ceil(totalCount / COMPLAINT_PAGE_SIZE));
+  // Preset ages, plus a custom one from a shared link
+  const staleOptions = [...new Set([3, 7, 14, 30, filters.staleDays ?? 3])].sort((a, b) => a - b);
+  const hasFilters = toComplaintSearchParams({
+    ...filters,
+    sort: DEFAULT_COMPLAINT_FILTERS.sort,
+    ascending: DEFAULT_COMPLAINT_FILTERS.ascending,
+    page: 1,
+  }).toString() !== "";
 
   useEffect(() => {
     if (!authLoading) {
@@ -32,61 +134,152 @@ export default function AdminDashboard() {
     }
   }, [user, profile, authLoading, navigate]);
 
+  // Landing on the bare dashboard opens the admin's default saved view
+  useEffect(() => {
+    if (viewReady || savedViews.loading) return;
+
+    const defaultView = savedViews.views.find((v) => v.is_default);
+    if (defaultView && !searchParams.toString()) {
+      setSearchParams(new URLSearchParams(defaultView.filters), { replace: true });
+    }
+    setViewReady(true);
+  }, [savedViews.loading]);
+
   useEffect(() => {
-    if (user && profile?.role === "admin") {
+    if (user && profile?.role === "admin" && viewReady) {
       fetchComplaints();
     }
-  }, [user, profile]);
+  }, [user, profile, filters, viewReady]);
+
+  // A selection belongs to one result set; paging keeps it, filtering clears it
+  const resultSetKey = toComplaintSearchParams({ ...filters, page: 1 }).toString();
+  useEffect(() => {
+    setSelectedIds([]);
+  }, [resultSetKey]);
+
+  // Keep the input in sync when the URL changes from outside (back button)
+  useEffect(() => {
+    setSearchInput(filters.search);
+  }, [filters.search]);
 
+  // Debounce typing before it reaches the URL and triggers a query
   useEffect(() => {
-    filterComplaints();
-  }, [complaints, searchTerm, statusFilter, categoryFilter]);
+    if (searchInput === filters.search) return;
+    const timeout = setTimeout(() => updateFilters(withSearch(filters, searchInput), { replace: true }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
   const fetchComplaints = async () => {
-    setLoading(true);
-    const { data, error } = await supabase
-      .from("complaints")
-      .select(`
-        *,
-        student:student_id (
-          id,
-          full_name,
-          email
-        )
-      `)
-      .order("created_at", { ascending: false });
+    const requestId = ++latestRequest.current;
+    setFetching(true);
+    const from = (filters.page - 1) * COMPLAINT_PAGE_SIZE;
+    const { data, count, error } = await supabase
+      .rpc("search_admin_complaints", { _filters: toComplaintSearchArgs(filters) }, { count: "exact" })
+      .order(filters.sort, { ascending: filters.ascending, nullsFirst: false })
+      .order("id")
+      .range(from, from + COMPLAINT_PAGE_SIZE - 1);
+
+    // A newer query was started while this one was in flight
+    if (requestId !== latestRequest.current) return;
 
     if (!error && data) {
-      setComplaints(data as Complaint[]);
+      const tags = await fetchComplaintTags(data.map((row) => row.id)).catch(() => ({}));
+      if (requestId !== latestRequest.current) return;
+
+      setComplaints(data.map(fromComplaintSearchRow));
+      setTagsByComplaint(tags);
+      setTotalCount(count ?? 0);
+    } else if (error?.code === "PGRST103" && filters.page > 1) {
+      // The page no longer exists (results shrank since the link was made)
+      updateFilters({ page: 1 }, { replace: true });
+    } else if (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not load complaints",
+        description: error.message || "The complaint list could not be loaded.",
+      });
     }
+    setFetching(false);
     setLoading(false);
   };
 
-  const filterComplaints = () => {
-    let filtered = [...complaints];
-
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase();
-      filtered = filtered.filter(
-        (c) =>
-          c.title.toLowerCase().includes(term) ||
-          c.description.toLowerCase().includes(term) ||
-          c.student?.email?.toLowerCase().includes(term) ||
-          c.student?.full_name?.toLowerCase().includes(term)
-      );
-    }
+  const updateFilters = (changes: Partial<ComplaintListFilters>, { replace = false } = {}) => {
+    // Any change other than paging starts again from the first page
+    const next = { ...filters, page: 1, ...changes };
+    setSearchParams(toComplaintSearchParams(next), { replace });
+  };
+
+  const handleSort = (column: ComplaintSortColumn) => {
+    updateFilters({
+      sort: column,
+      ascending: filters.sort === column ? !filters.ascending : column === "title" || column === "student_full_name",
+    });
+  };
+
+  const pageIds = complaints.map((c) => c.id);
+  const pageSelected = pageIds.length > 0 && pageIds.every((id) => selectedIds.includes(id));
+  const pagePartlySelected = !pageSelected && pageIds.some((id) => selectedIds.includes(id));
+  const canSelectAllMatching =
+    pageSelected && totalCount > complaints.length && selectedIds.length < Math.min(totalCount, BULK_SELECTION_LIMIT);
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((existing) => existing !== id)));
+  };
+
+  const togglePage = (checked: boolean) => {
+    setSelectedIds((prev) =>
+      checked ? [...new Set([...prev, ...pageIds])] : prev.filter((id) => !pageIds.includes(id))
+    );
+  };
+
+  // Bulk actions are capped server side, so "all matching" stops at that limit
+  const selectAllMatching = async () => {
+    setSelectingAll(true);
+    const { data, error } = await supabase
+      .rpc("search_admin_complaints", { _filters: toComplaintSearchArgs(filters) })
+      .select("id")
+      .order(filters.sort, { ascending: filters.ascending, nullsFirst: false })
+      .order("id")
+      .limit(BULK_SELECTION_LIMIT);
 
-    if (statusFilter !== "all") {
-      filtered = filtered.filter((c) => c.status === statusFilter);
+    if (!error && data) {
+      setSelectedIds(data.map((row) => row.id));
     }
+    setSelectingAll(false);
+  };
 
-    if (categoryFilter !== "all") {
-      filtered = filtered.filter((c) => c.category === categoryFilter);
+  const exportSelected = async () => {
+    try {
+      const [rows, tags] = await Promise.all([
+        fetchAdminComplaintsByIds(selectedIds),
+        fetchComplaintTags(selectedIds),
+      ]);
+      downloadFile(toComplaintCsv(rows, tags), exportFilename("csv"), "text/csv;charset=utf-8");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: (error as Error).message || "Could not export the selected complaints.",
+      });
     }
+  };
 
-    setFilteredComplaints(filtered);
+  const hrefForPage = (page: number) => {
+    const params = toComplaintSearchParams({ ...filters, page });
+    return params.toString() ? `?${params}` : "?";
   };
 
+  // Another admin or the student changed a complaint; reload the current page
+  // since the change may move it in or out of the filtered, sorted results
+  useComplaintActivity(
+    "admin-dashboard",
+    (activity) => {
+      markUpdated(activity.complaint_id);
+      fetchComplaints();
+    },
+    { enabled: !!user && profile?.role === "admin" }
+  );
+
   if (authLoading || loading) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -98,15 +291,6 @@ export default function AdminDashboard() {
     );
   }
 
-  const categoryLabels: Record<string, string> = {
-    mentor: "Mentor",
-    admin: "Admin",
-    academic_counsellor: "Academic Counsellor",
-    working_hub: "Working Hub",
-    peer: "Peer",
-    other: "Other",
-  };
-
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card">
@@ -115,108 +299,284 @@ export default function AdminDashboard() {
             <h1 className="text-2xl font-bold text-foreground">BrotoRaise Admin</h1>
             <p className="text-sm text-muted-foreground">Complaint Management Dashboard</p>
           </div>
-          <Button variant="outline" onClick={signOut}>
-            <LogOut className="mr-2 h-4 w-4" />
-            Sign Out
-          </Button>
+          <div className="flex gap-2">
+            <NotificationBell />
+            <EmailPreferences />
+            <Button variant="outline" onClick={() => navigate("/admin/analytics")}>
+              <BarChart3 className="mr-2 h-4 w-4" />
+              Analytics
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/admin/import")}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/admin/settings/routing")}>
+              <Route className="mr-2 h-4 w-4" />
+              Routing
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/admin/users")}>
+              <Users className="mr-2 h-4 w-4" />
+              Users
+            </Button>
+            <Button variant="outline" onClick={signOut}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign Out
+            </Button>
+          </div>
         </div>
       </header>
 
       <main className="container mx-auto px-4 py-8">
-        <div className="mb-6">
-          <h2 className="text-3xl font-bold tracking-tight">All Complaints</h2>
-          <p className="text-muted-foreground">Manage and resolve student complaints</p>
+        <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">All Complaints</h2>
+            <p className="text-muted-foreground">Manage and resolve student complaints</p>
+          </div>
+          <ComplaintExportMenu filters={filters} totalCount={totalCount} />
         </div>
 
+        <SavedViewTabs
+          savedViews={savedViews}
+          filters={filters}
+          onApply={(viewFilters) => setSearchParams(new URLSearchParams(viewFilters))}
+        />
+
         <Card className="mb-6">
           <CardContent className="pt-6">
-            <div className="grid gap-4 md:grid-cols-3">
+            <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
               <div className="relative">
                 <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search complaints..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  placeholder="Search title, description, notes, student..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
                   className="pl-9"
                 />
               </div>
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select
+                value={filters.status}
+                onValueChange={(value) => updateFilters({ status: value as ComplaintListFilters["status"] })}
+              >
                 <SelectTrigger>
                   <Filter className="mr-2 h-4 w-4" />
                   <SelectValue placeholder="Filter by status" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Statuses</SelectItem>
-                  <SelectItem value="open">Open</SelectItem>
-                  <SelectItem value="in_progress">In Progress</SelectItem>
-                  <SelectItem value="resolved">Resolved</SelectItem>
+                  {COMPLAINT_STATUSES.map((value) => (
+                    <SelectItem key={value} value={value}>{STATUS_LABELS[value]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
-              <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <Select
+                value={filters.category}
+                onValueChange={(value) => updateFilters({ category: value as ComplaintListFilters["category"] })}
+              >
                 <SelectTrigger>
                   <Filter className="mr-2 h-4 w-4" />
                   <SelectValue placeholder="Filter by category" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Categories</SelectItem>
-                  <SelectItem value="mentor">Mentor</SelectItem>
-                  <SelectItem value="admin">Admin</SelectItem>
-                  <SelectItem value="academic_counsellor">Academic Counsellor</SelectItem>
-                  <SelectItem value="working_hub">Working Hub</SelectItem>
-                  <SelectItem value="peer">Peer</SelectItem>
-                  <SelectItem value="other">Other</SelectItem>
+                  {COMPLAINT_CATEGORIES.map((value) => (
+                    <SelectItem key={value} value={value}>{CATEGORY_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={filters.assignee} onValueChange={(value) => updateFilters({ assignee: value })}>
+                <SelectTrigger>
+                  <UserCheck className="mr-2 h-4 w-4" />
+                  <SelectValue placeholder="Filter by assignee" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="mine">Assigned to me</SelectItem>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                </SelectContent>
+              </Select>
+              <Toggle
+                variant="outline"
+                pressed={filters.overdue}
+                onPressedChange={(overdue) => updateFilters({ overdue })}
+                className="justify-start data-[state=on]:border-destructive data-[state=on]:text-destructive"
+              >
+                <AlertTriangle className="mr-2 h-4 w-4" />
+                Overdue
+              </Toggle>
+            </div>
+            <div className="mt-4 grid gap-4 md:grid-cols-3 lg:grid-cols-5">
+              <DateRangeFilter
+                field={filters.dateField}
+                from={filters.dateFrom}
+                to={filters.dateTo}
+                onChange={updateFilters}
+              />
+              <StudentPicker value={filters.student} onChange={(student) => updateFilters({ student })} />
+              <Select
+                value={filters.staleDays ? String(filters.staleDays) : "any"}
+                onValueChange={(value) => updateFilters({ staleDays: value === "any" ? null : Number(value) })}
+              >
+                <SelectTrigger>
+                  <Clock className="mr-2 h-4 w-4" />
+                  <SelectValue placeholder="Last update" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any last update</SelectItem>
+                  {staleOptions.map((days) => (
+                    <SelectItem key={days} value={String(days)}>No update for {days}+ days</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              <Toggle
+                variant="outline"
+                pressed={filters.hasAttachment}
+                onPressedChange={(hasAttachment) => updateFilters({ hasAttachment })}
+                className="justify-start"
+              >
+                <Paperclip className="mr-2 h-4 w-4" />
+                Has attachments
+              </Toggle>
+              <Button
+                variant="ghost"
+                className="justify-start"
+                disabled={!hasFilters}
+                onClick={() => {
+                  setSearchInput("");
+                  updateFilters({ ...DEFAULT_COMPLAINT_FILTERS, sort: filters.sort, ascending: filters.ascending });
+                }}
+              >
+                <X className="mr-2 h-4 w-4" />
+                Clear filters
+              </Button>
             </div>
           </CardContent>
         </Card>
 
-        <Card>
+        <BulkActionBar
+          selectedIds={selectedIds}
+          onClear={() => setSelectedIds([])}
+          onCompleted={() => {
+            setSelectedIds([]);
+            fetchComplaints();
+          }}
+          onExport={exportSelected}
+        />
+
+        {canSelectAllMatching && (
+          <p className="mb-4 text-center text-sm text-muted-foreground">
+            All {complaints.length} complaints on this page are selected.{" "}
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={selectAllMatching} disabled={selectingAll}>
+              {totalCount > BULK_SELECTION_LIMIT
+                ? `Select the first ${BULK_SELECTION_LIMIT} matching complaints`
+                : `Select all ${totalCount} matching complaints`}
+            </Button>
+          </p>
+        )}
+
+        <Card className={cn("transition-opacity", fetching && "opacity-60")}>
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Submitted</TableHead>
-                <TableHead>Title</TableHead>
-                <TableHead>Category</TableHead>
-                <TableHead>Student</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead>Updated</TableHead>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={pageSelected ? true : pagePartlySelected ? "indeterminate" : false}
+                    onCheckedChange={(checked) => togglePage(checked === true)}
+                    aria-label="Select all complaints on this page"
+                  />
+                </TableHead>
+                <SortableHead column="created_at" label="Submitted" filters={filters} onSort={handleSort} />
+                <SortableHead column="title" label="Title" filters={filters} onSort={handleSort} />
+                <SortableHead column="category" label="Category" filters={filters} onSort={handleSort} />
+                <SortableHead column="student_full_name" label="Student" filters={filters} onSort={handleSort} />
+                <SortableHead column="assignee_full_name" label="Assignee" filters={filters} onSort={handleSort} />
+                <SortableHead column="status" label="Status" filters={filters} onSort={handleSort} />
+                <SortableHead column="resolve_due_at" label="SLA" filters={filters} onSort={handleSort} />
+                <SortableHead column="updated_at" label="Updated" filters={filters} onSort={handleSort} />
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredComplaints.length === 0 ? (
+              {complaints.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                  <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
                     No complaints found
                   </TableCell>
                 </TableRow>
               ) : (
-                filteredComplaints.map((complaint) => (
+                complaints.map((complaint) => (
                   <TableRow
                     key={complaint.id}
-                    className="cursor-pointer hover:bg-muted/50"
+                    className={cn(
+                      "cursor-pointer transition-colors hover:bg-muted/50",
+                      isRecent(complaint.id) && "bg-primary/5"
+                    )}
                     onClick={() => navigate(`/admin/complaint/${complaint.id}`)}
                   >
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <Checkbox
+                        checked={selectedIds.includes(complaint.id)}
+                        onCheckedChange={(checked) => toggleSelected(complaint.id, checked === true)}
+                        aria-label={`Select ${complaint.title}`}
+                      />
+                    </TableCell>
                     <TableCell className="text-sm">
                       {formatDistanceToNow(new Date(complaint.created_at), { addSuffix: true })}
                     </TableCell>
-                    <TableCell className="font-medium max-w-xs truncate">
-                      {complaint.title}
+                    <TableCell className="max-w-xs">
+                      <div className="font-medium truncate">
+                        {complaint.search_title ? <SearchHighlight text={complaint.search_title} /> : complaint.title}
+                      </div>
+                      {tagsByComplaint[complaint.id]?.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {tagsByComplaint[complaint.id].map((tag) => (
+                            <Badge key={tag} variant="secondary" className="px-1.5 py-0 text-[10px] font-normal">
+                              {tag}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      {complaint.search_snippet?.includes("<mark>") && (
+                        <div className="mt-1 text-xs text-muted-foreground line-clamp-2">
+                          <SearchHighlight text={complaint.search_snippet} />
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell className="text-sm">
-                      {categoryLabels[complaint.category]}
+                      {CATEGORY_LABELS[complaint.category]}
                     </TableCell>
                     <TableCell className="text-sm">
-                      <div>
-                        <div className="font-medium">{complaint.student?.full_name}</div>
-                        <div className="text-xs text-muted-foreground">{complaint.student?.email}</div>
-                      </div>
+                      {complaint.student ? (
+                        <div>
+                          <div className="font-medium">{complaint.student.full_name}</div>
+                          <div className="text-xs text-muted-foreground">{complaint.student.email}</div>
+                        </div>
+                      ) : (
+                        <span className="flex items-center gap-1 text-muted-foreground">
+                          <EyeOff className="h-3 w-3" />
+                          Anonymous
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {complaint.assigned_to === user?.id ? (
+                        <span className="font-medium">You</span>
+                      ) : (
+                        complaint.assignee?.full_name || (
+                          <span className="text-muted-foreground">Unassigned</span>
+                        )
+                      )}
                     </TableCell>
                     <TableCell>
                       <StatusBadge status={complaint.status} />
                     </TableCell>
+                    <TableCell>
+                      <SlaIndicator complaint={complaint} />
+                    </TableCell>
                     <TableCell className="text-sm text-muted-foreground">
-                      {formatDistanceToNow(new Date(complaint.updated_at), { addSuffix: true })}
+                      {isRecent(complaint.id) ? (
+                        <span className="font-medium text-primary">Updated just now</span>
+                      ) : (
+                        formatDistanceToNow(new Date(complaint.updated_at), { addSuffix: true })
+                      )}
                     </TableCell>
                   </TableRow>
                 ))
@@ -224,6 +584,39 @@ export default function AdminDashboard() {
             </TableBody>
           </Table>
         </Card>
+
+        <div className="mt-4 flex flex-col items-center justify-between gap-2 sm:flex-row">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span>
+              {totalCount === 0
+                ? "No complaints found"
+                : `Showing ${(filters.page - 1) * COMPLAINT_PAGE_SIZE + 1}–${Math.min(
+                    filters.page * COMPLAINT_PAGE_SIZE,
+                    totalCount
+                  )} of ${totalCount}`}
+            </span>
+            {filters.search && totalCount > 0 && (
+              filters.sort === "search_rank" ? (
+                <span>· sorted by best match</span>
+              ) : (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={() => updateFilters({ sort: "search_rank", ascending: false })}
+                >
+                  Sort by best match
+                </Button>
+              )
+            )}
+          </div>
+          <ListPagination
+            page={filters.page}
+            pageCount={pageCount}
+            hrefFor={hrefForPage}
+            onPageChange={(page) => updateFilters({ page })}
+          />
+        </div>
       </main>
     </div>
   );
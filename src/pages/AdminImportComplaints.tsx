@@ -0,0 +1,421 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Toggle } from "@/components/ui/toggle";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { parseCsv } from "@/lib/csv";
+import {
+  IMPORT_FIELDS,
+  IMPORT_ROW_LIMIT,
+  ImportMapping,
+  ImportPreviewRow,
+  fetchStudentsByEmail,
+  guessImportMapping,
+  validateImportRows,
+} from "@/lib/complaintImport";
+import { describeComplaintError } from "@/lib/complaintErrors";
+import { CATEGORY_LABELS } from "@/lib/categories";
+import { STATUS_LABELS } from "@/lib/status";
+import { cn } from "@/lib/utils";
+import { AlertCircle, ArrowLeft, CheckCircle2, Upload } from "lucide-react";
+import { format } from "date-fns";
+
+type ImportStep = "upload" | "map" | "preview" | "done";
+
+const STEPS: { step: ImportStep; label: string }[] = [
+  { step: "upload", label: "Upload file" },
+  { step: "map", label: "Match columns" },
+  { step: "preview", label: "Review rows" },
+  { step: "done", label: "Done" },
+];
+
+const NOT_MAPPED = "none";
+
+export default function AdminImportComplaints() {
+  const { user, profile, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [preview, setPreview] = useState<ImportPreviewRow[]>([]);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+  const isAdmin = profile?.role === "admin";
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (!user) {
+        navigate("/auth");
+      } else if (!isAdmin) {
+        navigate("/student");
+      }
+    }
+  }, [user, isAdmin, authLoading, navigate]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const [headerRow, ...dataRows] = parseCsv(await file.text());
+    if (!headerRow || dataRows.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "Nothing to import",
+        description: `${file.name} needs a header row and at least one complaint.`,
+      });
+      return;
+    }
+    if (dataRows.length > IMPORT_ROW_LIMIT) {
+      toast({
+        variant: "destructive",
+        title: "File too large",
+        description: `Import at most ${IMPORT_ROW_LIMIT} complaints at a time; split the file and import each part.`,
+      });
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(headerRow);
+    setRows(dataRows);
+    setMapping(guessImportMapping(headerRow));
+    setStep("map");
+  };
+
+  const missingFields = mapping
+    ? IMPORT_FIELDS.filter(({ field, required }) => required && mapping[field] === null)
+    : [];
+
+  const handleCheck = async () => {
+    if (!mapping || missingFields.length > 0) return;
+
+    setChecking(true);
+    try {
+      const emailColumn = mapping.student_email!;
+      const students = await fetchStudentsByEmail(rows.map((cells) => cells[emailColumn] ?? ""));
+      setPreview(validateImportRows(rows, mapping, students));
+      setProblemsOnly(false);
+      setStep("preview");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        ...describeComplaintError(error, "Could not check rows", "Please try again."),
+      });
+    }
+    setChecking(false);
+  };
+
+  const validRows = preview.filter((entry) => entry.row !== null);
+  const problemRows = preview.filter((entry) => entry.errors.length > 0);
+  const visibleRows = problemsOnly ? problemRows : preview;
+
+  const handleImport = async () => {
+    setImporting(true);
+    const { data, error } = await supabase.rpc("import_complaints", {
+      _rows: validRows.map((entry) => entry.row),
+    });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        ...describeComplaintError(error, "Import failed", "No complaints were imported."),
+      });
+    } else {
+      setImportedCount(data);
+      setStep("done");
+    }
+    setImporting(false);
+    setConfirming(false);
+  };
+
+  const startOver = () => {
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setMapping(null);
+    setPreview([]);
+    setStep("upload");
+  };
+
+  if (authLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  const stepIndex = STEPS.findIndex((s) => s.step === step);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/admin")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-5xl px-4 py-8">
+        <div className="mb-6">
+          <h2 className="text-3xl font-bold tracking-tight">Import Complaints</h2>
+          <p className="text-muted-foreground">
+            Bring complaints recorded before BrotoRaise into the system from a CSV file
+          </p>
+        </div>
+
+        <ol className="mb-6 flex flex-wrap gap-2 text-sm">
+          {STEPS.map(({ step: s, label }, index) => (
+            <li
+              key={s}
+              className={cn(
+                "rounded-full border px-3 py-1",
+                index === stepIndex && "border-primary bg-primary text-primary-foreground",
+                index < stepIndex && "text-muted-foreground"
+              )}
+            >
+              {index + 1}. {label}
+            </li>
+          ))}
+        </ol>
+
+        {step === "upload" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Choose a CSV file</CardTitle>
+              <CardDescription>
+                The first row must hold column names. Each complaint needs a title, description, category and the
+                email of a student with a BrotoRaise account; submitted and resolved dates, status, admin note and
+                anonymity are optional. Up to {IMPORT_ROW_LIMIT} rows per file.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Label htmlFor="import-file" className="sr-only">CSV file</Label>
+              <Input id="import-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "map" && mapping && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Match columns</CardTitle>
+              <CardDescription>
+                {fileName}: {rows.length} {rows.length === 1 ? "row" : "rows"}. Pick the column that holds each field.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Column in file</TableHead>
+                    <TableHead>First row</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {IMPORT_FIELDS.map(({ field, label, required }) => (
+                    <TableRow key={field}>
+                      <TableCell className="font-medium">
+                        {label} {required && <span className="text-destructive">*</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={mapping[field] === null ? NOT_MAPPED : String(mapping[field])}
+                          onValueChange={(value) =>
+                            setMapping({ ...mapping, [field]: value === NOT_MAPPED ? null : Number(value) })
+                          }
+                        >
+                          <SelectTrigger className="w-56">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                            {headers.map((header, index) => (
+                              <SelectItem key={index} value={String(index)}>
+                                {header || `Column ${index + 1}`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate text-muted-foreground">
+                        {mapping[field] === null ? "—" : rows[0][mapping[field]!]}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="flex items-center justify-between gap-4">
+                <Button variant="outline" onClick={startOver}>
+                  Choose another file
+                </Button>
+                <div className="flex items-center gap-4">
+                  {missingFields.length > 0 && (
+                    <p className="text-sm text-destructive">
+                      Match {missingFields.map((f) => f.label.toLowerCase()).join(", ")} to continue
+                    </p>
+                  )}
+                  <Button onClick={handleCheck} disabled={checking || missingFields.length > 0}>
+                    {checking ? "Checking..." : "Check rows"}
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "preview" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Review rows</CardTitle>
+              <CardDescription>
+                {validRows.length} of {preview.length} rows are ready to import.
+                {problemRows.length > 0 &&
+                  " Rows with problems are skipped; fix them in the file and import them separately."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <Toggle
+                  variant="outline"
+                  pressed={problemsOnly}
+                  onPressedChange={setProblemsOnly}
+                  disabled={problemRows.length === 0}
+                >
+                  <AlertCircle className="mr-2 h-4 w-4" />
+                  Only rows with problems ({problemRows.length})
+                </Toggle>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setStep("map")}>
+                    Back
+                  </Button>
+                  <Button onClick={() => setConfirming(true)} disabled={validRows.length === 0 || importing}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import {validRows.length} {validRows.length === 1 ? "complaint" : "complaints"}
+                  </Button>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Line</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Student</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Submitted</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map((entry) => (
+                    <TableRow key={entry.line} className={cn(entry.errors.length > 0 && "bg-destructive/5")}>
+                      <TableCell className="align-top">{entry.line}</TableCell>
+                      {entry.row ? (
+                        <>
+                          <TableCell className="max-w-xs truncate align-top">{entry.row.title}</TableCell>
+                          <TableCell className="align-top">
+                            {entry.studentName}
+                            {entry.row.is_anonymous && (
+                              <span className="ml-1 text-xs text-muted-foreground">(anonymous)</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="align-top">{CATEGORY_LABELS[entry.row.category]}</TableCell>
+                          <TableCell className="align-top">{STATUS_LABELS[entry.row.status]}</TableCell>
+                          <TableCell className="align-top">
+                            {entry.row.created_at ? format(new Date(entry.row.created_at), "PP") : "Today"}
+                          </TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={5} className="align-top">
+                          <ul className="space-y-1 text-sm text-destructive">
+                            {entry.errors.map((problem) => (
+                              <li key={problem}>{problem}</li>
+                            ))}
+                          </ul>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "done" && (
+          <Card>
+            <CardContent className="flex flex-col items-center gap-4 py-12 text-center">
+              <CheckCircle2 className="h-12 w-12 text-primary" />
+              <div>
+                <p className="text-lg font-semibold">
+                  Imported {importedCount} {importedCount === 1 ? "complaint" : "complaints"}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  They keep their original dates and appear in the dashboard and analytics.
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={startOver}>
+                  Import another file
+                </Button>
+                <Button onClick={() => navigate("/admin")}>Back to Dashboard</Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <AlertDialog open={confirming} onOpenChange={(open) => !importing && setConfirming(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Import {validRows.length} complaints?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The complaints are added with their original dates and a history entry for their final status.
+              Students and staff are not notified and no SLA deadlines are set. Imports cannot be undone from here.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={importing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleImport();
+              }}
+              disabled={importing}
+            >
+              {importing ? "Importing..." : "Import"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { StaffMember, useStaffMembers } from "@/hooks/use-staff";
+import { ComplaintCategory, ComplaintRoutingRule } from "@/lib/types";
+import { CATEGORY_LABELS, COMPLAINT_CATEGORIES } from "@/lib/categories";
+import { ArrowLeft, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+const NO_ASSIGNEE = "none";
+
+interface RuleFormProps {
+  category: ComplaintCategory;
+  rule: ComplaintRoutingRule | undefined;
+  staff: StaffMember[];
+  onSaved: () => void;
+}
+
+const RuleForm = ({ category, rule, staff, onSaved }: RuleFormProps) => {
+  const { toast } = useToast();
+  const [teamName, setTeamName] = useState("");
+  const [defaultAssignee, setDefaultAssignee] = useState(NO_ASSIGNEE);
+  const [roundRobin, setRoundRobin] = useState(false);
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [isActive, setIsActive] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setTeamName(rule?.team_name || "");
+    setDefaultAssignee(rule?.default_assignee_id || NO_ASSIGNEE);
+    setRoundRobin(rule?.round_robin || false);
+    setMemberIds(rule?.member_ids || []);
+    setIsActive(rule?.is_active ?? true);
+  }, [rule]);
+
+  const toggleMember = (id: string, checked: boolean) => {
+    setMemberIds((prev) => (checked ? [...prev, id] : prev.filter((m) => m !== id)));
+  };
+
+  const handleSave = async () => {
+    if (!teamName.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Team name required",
+        description: "Please name the team that handles this category.",
+      });
+      return;
+    }
+
+    if (roundRobin && memberIds.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "No team members",
+        description: "Select at least one staff member for round-robin assignment.",
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    const { error } = await supabase.from("complaint_routing_rules").upsert(
+      {
+        category,
+        team_name: teamName.trim(),
+        default_assignee_id: defaultAssignee === NO_ASSIGNEE ? null : defaultAssignee,
+        round_robin: roundRobin,
+        member_ids: roundRobin ? memberIds : [],
+        is_active: isActive,
+      },
+      { onConflict: "category" }
+    );
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Save failed",
+        description: error.message || "Failed to save routing rule.",
+      });
+    } else {
+      toast({
+        title: "Rule saved",
+        description: `New ${CATEGORY_LABELS[category]} complaints will be routed to ${teamName.trim()}.`,
+      });
+      onSaved();
+    }
+    setSaving(false);
+  };
+
+  const handleDelete = async () => {
+    if (!rule) return;
+
+    setSaving(true);
+
+    const { error } = await supabase
+      .from("complaint_routing_rules")
+      .delete()
+      .eq("id", rule.id);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Delete failed",
+        description: error.message || "Failed to delete routing rule.",
+      });
+    } else {
+      onSaved();
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div className="space-y-1">
+            <CardTitle className="text-xl">{CATEGORY_LABELS[category]}</CardTitle>
+            <CardDescription>
+              {rule ? (rule.is_active ? "Routing is active" : "Routing is paused") : "No rule — complaints stay unassigned"}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`active-${category}`} className="text-sm">Active</Label>
+            <Switch
+              id={`active-${category}`}
+              checked={isActive}
+              onCheckedChange={setIsActive}
+              disabled={saving}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor={`team-${category}`}>Team</Label>
+            <Input
+              id={`team-${category}`}
+              placeholder="e.g. Mentor team"
+              value={teamName}
+              onChange={(e) => setTeamName(e.target.value)}
+              disabled={saving}
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Default assignee</Label>
+            <Select value={defaultAssignee} onValueChange={setDefaultAssignee} disabled={saving}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ASSIGNEE}>No default assignee</SelectItem>
+                {staff.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.full_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`round-robin-${category}`}
+            checked={roundRobin}
+            onCheckedChange={setRoundRobin}
+            disabled={saving}
+          />
+          <Label htmlFor={`round-robin-${category}`}>Rotate between team members (round-robin)</Label>
+        </div>
+
+        {roundRobin && (
+          <div className="grid gap-2 rounded-lg border p-3 sm:grid-cols-2">
+            {staff.map((member) => (
+              <label key={member.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={memberIds.includes(member.id)}
+                  onCheckedChange={(checked) => toggleMember(member.id, checked === true)}
+                  disabled={saving}
+                />
+                {member.full_name}
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {rule && (
+            <Button variant="outline" onClick={handleDelete} disabled={saving}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Remove rule
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="mr-2 h-4 w-4" />
+            {saving ? "Saving..." : "Save Rule"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default function AdminRoutingSettings() {
+  const { user, profile, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [rules, setRules] = useState<ComplaintRoutingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const isAdmin = profile?.role === "admin";
+  const { staff } = useStaffMembers(isAdmin);
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (!user) {
+        navigate("/auth");
+      } else if (!isAdmin) {
+        navigate("/student");
+      }
+    }
+  }, [user, isAdmin, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchRules();
+    }
+  }, [user, isAdmin]);
+
+  const fetchRules = async () => {
+    const { data, error } = await supabase
+      .from("complaint_routing_rules")
+      .select("*");
+
+    if (!error && data) {
+      setRules(data);
+    }
+    setLoading(false);
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/admin")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-4xl px-4 py-8">
+        <div className="mb-6">
+          <h2 className="text-3xl font-bold tracking-tight">Routing Rules</h2>
+          <p className="text-muted-foreground">
+            Automatically assign new complaints to the team responsible for each category
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          {COMPLAINT_CATEGORIES.map((category) => (
+            <RuleForm
+              key={category}
+              category={category}
+              rule={rules.find((r) => r.category === category)}
+              staff={staff}
+              onSaved={fetchRules}
+            />
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,540 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ListPagination } from "@/components/ListPagination";
+import { AppRole, ManagedUser, UserAuditEntry } from "@/lib/types";
+import {
+  AUDIT_ACTION_LABELS,
+  inviteStaff,
+  ROLE_LABELS,
+  STAFF_ROLES,
+  USER_PAGE_SIZE,
+} from "@/lib/userManagement";
+import { describeComplaintError } from "@/lib/complaintErrors";
+import { useToast } from "@/hooks/use-toast";
+import { format, formatDistanceToNow } from "date-fns";
+import { ArrowLeft, Filter, MoreHorizontal, Search, UserPlus } from "lucide-react";
+
+const ALL_ROLES = "all";
+
+type PendingChange =
+  | { kind: "role"; user: ManagedUser; role: AppRole; granted: boolean }
+  | { kind: "active"; user: ManagedUser; active: boolean };
+
+const describeChange = (change: PendingChange) => {
+  const name = change.user.full_name;
+  if (change.kind === "active") {
+    return change.active
+      ? { title: `Reactivate ${name}?`, description: "They will be able to sign in and use BrotoRaise again." }
+      : {
+          title: `Deactivate ${name}?`,
+          description: "They will no longer be able to use BrotoRaise. Their complaints and history are kept.",
+        };
+  }
+  const role = ROLE_LABELS[change.role];
+  return change.granted
+    ? { title: `Make ${name} ${role}?`, description: `They will get every permission of the ${role} role.` }
+    : { title: `Remove ${role} from ${name}?`, description: `They will lose the permissions of the ${role} role.` };
+};
+
+interface InviteDialogProps {
+  onInvited: () => void;
+}
+
+const InviteDialog = ({ onInvited }: InviteDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [fullName, setFullName] = useState("");
+  const [role, setRole] = useState<AppRole>("admin");
+  const [sending, setSending] = useState(false);
+
+  const handleInvite = async () => {
+    setSending(true);
+    try {
+      const emailSent = await inviteStaff(email.trim(), fullName.trim(), role);
+      toast({
+        title: emailSent ? "Invitation sent" : "Role granted",
+        description: emailSent
+          ? `${email.trim()} will become ${ROLE_LABELS[role]} when they accept the invitation within 7 days.`
+          : `${email.trim()} already had an account and is now ${ROLE_LABELS[role]}.`,
+      });
+      setOpen(false);
+      setEmail("");
+      setFullName("");
+      onInvited();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        ...describeComplaintError(error, "Invitation failed", "The invitation could not be sent."),
+      });
+    }
+    setSending(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !sending && setOpen(value)}>
+      <DialogTrigger asChild>
+        <Button>
+          <UserPlus className="mr-2 h-4 w-4" />
+          Invite Staff
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invite staff</DialogTitle>
+          <DialogDescription>
+            New staff get an email to set up their account. Someone who already has an account gets the role straight
+            away.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="invite-email">
+              Email <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="invite-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={sending}
+              maxLength={254}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-name">
+              Full name <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="invite-name"
+              value={fullName}
+              onChange={(e) => setFullName(e.target.value)}
+              disabled={sending}
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as AppRole)} disabled={sending}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STAFF_ROLES.map((value) => (
+                  <SelectItem key={value} value={value}>{ROLE_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={sending}>
+            Cancel
+          </Button>
+          <Button onClick={handleInvite} disabled={!email.trim() || !fullName.trim() || sending}>
+            {sending ? "Sending..." : "Send invitation"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const AuditLog = ({ entries }: { entries: UserAuditEntry[] }) => (
+  <Card className="mt-6">
+    <CardHeader>
+      <CardTitle className="text-xl">Recent changes</CardTitle>
+      <CardDescription>Role, activation and invitation changes made by admins</CardDescription>
+    </CardHeader>
+    <CardContent>
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes yet</p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex flex-wrap items-baseline justify-between gap-2">
+              <span>
+                <span className="font-medium">{entry.actor?.full_name ?? "Unknown admin"}</span>
+                {" · "}
+                {AUDIT_ACTION_LABELS[entry.action]}
+                {entry.role && ` ${ROLE_LABELS[entry.role]}`}
+                {" · "}
+                {entry.target_email}
+              </span>
+              <span className="text-muted-foreground" title={format(new Date(entry.created_at), "PPpp")}>
+                {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </CardContent>
+  </Card>
+);
+
+export default function AdminUsers() {
+  const { user, profile, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.get("q") ?? "";
+  const roleFilter = (searchParams.get("role") as AppRole | null) ?? null;
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+  const [searchInput, setSearchInput] = useState(search);
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [auditLog, setAuditLog] = useState<UserAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pendingChange, setPendingChange] = useState<PendingChange | null>(null);
+  const [saving, setSaving] = useState(false);
+  const latestRequest = useRef(0);
+  const isAdmin = profile?.role === "admin";
+  const pageCount = Math.max(1, Math.ceil(totalCount / USER_PAGE_SIZE));
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (!user) {
+        navigate("/auth");
+      } else if (!isAdmin) {
+        navigate("/student");
+      }
+    }
+  }, [user, isAdmin, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchUsers();
+    }
+  }, [user, isAdmin, search, roleFilter, page]);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchAuditLog();
+    }
+  }, [user, isAdmin]);
+
+  // Keep the input in sync when the URL changes from outside (back button)
+  useEffect(() => {
+    setSearchInput(search);
+  }, [search]);
+
+  // Debounce typing before it reaches the URL and triggers a query
+  useEffect(() => {
+    if (searchInput === search) return;
+    const timeout = setTimeout(() => updateParams({ q: searchInput }, { replace: true }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const fetchUsers = async () => {
+    const requestId = ++latestRequest.current;
+    const from = (page - 1) * USER_PAGE_SIZE;
+    const { data, count, error } = await supabase
+      .rpc("list_users", { _search: search || undefined, _role: roleFilter || undefined }, { count: "exact" })
+      .order("full_name")
+      .order("id")
+      .range(from, from + USER_PAGE_SIZE - 1);
+
+    if (requestId !== latestRequest.current) return;
+
+    if (!error && data) {
+      setUsers(data);
+      setTotalCount(count ?? 0);
+    } else if (error?.code === "PGRST103" && page > 1) {
+      updateParams({ page: null }, { replace: true });
+    }
+    setLoading(false);
+  };
+
+  const fetchAuditLog = async () => {
+    const { data, error } = await supabase
+      .from("user_audit_log")
+      .select(`
+        *,
+        actor:profiles!user_audit_log_actor_user_id_fkey (
+          id,
+          full_name
+        )
+      `)
+      .order("created_at", { ascending: false })
+      .limit(20);
+
+    if (!error && data) {
+      setAuditLog(data as UserAuditEntry[]);
+    }
+  };
+
+  // Any change other than paging starts again from the first page
+  const updateParams = (changes: Record<string, string | null>, { replace = false } = {}) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries({ page: null, ...changes })) {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    }
+    setSearchParams(next, { replace });
+  };
+
+  const hrefForPage = (target: number) => {
+    const next = new URLSearchParams(searchParams);
+    if (target > 1) next.set("page", String(target));
+    else next.delete("page");
+    return `?${next.toString()}`;
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingChange) return;
+
+    setSaving(true);
+    const { error } =
+      pendingChange.kind === "role"
+        ? await supabase.rpc("set_user_role", {
+            _user_id: pendingChange.user.id,
+            _role: pendingChange.role,
+            _granted: pendingChange.granted,
+          })
+        : await supabase.rpc("set_user_active", {
+            _user_id: pendingChange.user.id,
+            _active: pendingChange.active,
+          });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        ...describeComplaintError(error, "Update failed", "The user could not be updated."),
+      });
+    } else {
+      toast({ title: "User updated", description: `${pendingChange.user.full_name} has been updated.` });
+      fetchUsers();
+      fetchAuditLog();
+    }
+    setPendingChange(null);
+    setSaving(false);
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  const pendingText = pendingChange ? describeChange(pendingChange) : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/admin")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="mb-6 flex flex-col justify-between gap-4 sm:flex-row sm:items-end">
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">Users</h2>
+            <p className="text-muted-foreground">Manage staff roles, deactivate accounts and invite new staff</p>
+          </div>
+          <InviteDialog onInvited={() => { fetchUsers(); fetchAuditLog(); }} />
+        </div>
+
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="relative md:col-span-2">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search name or email..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select
+                value={roleFilter ?? ALL_ROLES}
+                onValueChange={(value) => updateParams({ role: value === ALL_ROLES ? null : value })}
+              >
+                <SelectTrigger>
+                  <Filter className="mr-2 h-4 w-4" />
+                  <SelectValue placeholder="Filter by role" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ROLES}>All Roles</SelectItem>
+                  {(Object.keys(ROLE_LABELS) as AppRole[]).map((value) => (
+                    <SelectItem key={value} value={value}>{ROLE_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Roles</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Complaints</TableHead>
+                <TableHead className="text-right">Open assigned</TableHead>
+                <TableHead>Last sign-in</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    No users found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                users.map((member) => {
+                  const isSelf = member.id === user?.id;
+                  return (
+                    <TableRow key={member.id} className={member.is_active ? undefined : "text-muted-foreground"}>
+                      <TableCell>
+                        <div className="font-medium">
+                          {member.full_name}
+                          {isSelf && <span className="ml-1 text-xs text-muted-foreground">(you)</span>}
+                        </div>
+                        <div className="text-sm text-muted-foreground">{member.email}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {member.roles.map((role) => (
+                            <Badge key={role} variant={role === "student" ? "outline" : "secondary"}>
+                              {ROLE_LABELS[role]}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {member.is_active ? (
+                          <Badge variant="outline">Active</Badge>
+                        ) : (
+                          <Badge variant="destructive">Deactivated</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{member.complaint_count}</TableCell>
+                      <TableCell className="text-right">{member.assigned_open_count}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {member.last_sign_in_at
+                          ? formatDistanceToNow(new Date(member.last_sign_in_at), { addSuffix: true })
+                          : "Never"}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {format(new Date(member.created_at), "MMM d, yyyy")}
+                      </TableCell>
+                      <TableCell>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" aria-label={`Actions for ${member.full_name}`}>
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            {STAFF_ROLES.map((role) => {
+                              const granted = member.roles.includes(role);
+                              return (
+                                <DropdownMenuItem
+                                  key={role}
+                                  disabled={granted && role === "admin" && isSelf}
+                                  onSelect={() => setPendingChange({ kind: "role", user: member, role, granted: !granted })}
+                                >
+                                  {granted ? `Remove ${ROLE_LABELS[role]}` : `Make ${ROLE_LABELS[role]}`}
+                                </DropdownMenuItem>
+                              );
+                            })}
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              disabled={isSelf}
+                              className={member.is_active ? "text-destructive" : undefined}
+                              onSelect={() => setPendingChange({ kind: "active", user: member, active: !member.is_active })}
+                            >
+                              {member.is_active ? "Deactivate" : "Reactivate"}
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+
+        <div className="mt-4 flex flex-col items-center justify-between gap-2 sm:flex-row">
+          <span className="text-sm text-muted-foreground">
+            {totalCount === 0
+              ? "No users found"
+              : `Showing ${(page - 1) * USER_PAGE_SIZE + 1}–${Math.min(page * USER_PAGE_SIZE, totalCount)} of ${totalCount}`}
+          </span>
+          <ListPagination
+            page={page}
+            pageCount={pageCount}
+            hrefFor={hrefForPage}
+            onPageChange={(target) => updateParams({ page: target > 1 ? String(target) : null })}
+          />
+        </div>
+
+        <AuditLog entries={auditLog} />
+      </main>
+
+      <AlertDialog open={!!pendingChange} onOpenChange={(open) => !open && !saving && setPendingChange(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingText?.title}</AlertDialogTitle>
+            <AlertDialogDescription>{pendingText?.description} The change is recorded in the audit log.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm} disabled={saving}>
+              Confirm
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -7,14 +7,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Upload, AlertCircle } from "lucide-react";
+import { ArrowLeft, Upload, AlertCircle, X } from "lucide-react";
+import { MAX_ATTACHMENTS, formatFileSize, uploadAttachment, validateAttachment } from "@/lib/attachments";
+import { descriptionSchema, titleSchema } from "@/lib/complaintValidation";
 import { z } from "zod";
 
-const titleSchema = z.string().trim().min(1).max(120);
-const descriptionSchema = z.string().trim().min(1).max(5000);
-
 export default function NewComplaint() {
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -23,7 +24,9 @@ export default function NewComplaint() {
   const [title, setTitle] = useState("");
   const [category, setCategory] = useState("");
   const [description, setDescription] = useState("");
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [progress, setProgress] = useState<number[]>([]);
+  const [isAnonymous, setIsAnonymous] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   const validateField = (name: string, value: string, schema: z.ZodString) => {
@@ -40,34 +43,37 @@ export default function NewComplaint() {
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      // Validate file
-      const validTypes = ["application/pdf", "image/jpeg", "image/png", "image/jpg"];
-      const maxSize = 10 * 1024 * 1024; // 10MB
-
-      if (!validTypes.includes(selectedFile.type)) {
-        toast({
-          variant: "destructive",
-          title: "Invalid file type",
-          description: "Please upload a PDF, JPG, or PNG file.",
-        });
-        e.target.value = "";
-        return;
-      }
+    const selectedFiles = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (selectedFiles.length === 0) return;
 
-      if (selectedFile.size > maxSize) {
+    const valid: File[] = [];
+    for (const selectedFile of selectedFiles) {
+      const problem = validateAttachment(selectedFile);
+      if (problem) {
         toast({
           variant: "destructive",
-          title: "File too large",
-          description: "File size must be less than 10MB.",
+          title: "File not added",
+          description: problem,
         });
-        e.target.value = "";
-        return;
+      } else {
+        valid.push(selectedFile);
       }
+    }
 
-      setFile(selectedFile);
+    if (files.length + valid.length > MAX_ATTACHMENTS) {
+      toast({
+        variant: "destructive",
+        title: "Too many files",
+        description: `You can attach up to ${MAX_ATTACHMENTS} files.`,
+      });
     }
+
+    setFiles((prev) => [...prev, ...valid].slice(0, MAX_ATTACHMENTS));
+  };
+
+  const removeFile = (index: number) => {
+    setFiles((prev) => prev.filter((_, i) => i !== index));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -88,48 +94,51 @@ export default function NewComplaint() {
     }
 
     setLoading(true);
+    setProgress(files.map(() => 0));
 
     try {
-      let attachmentId = null;
-
-      // Upload file if present
-      if (file && user) {
-        const fileExt = file.name.split(".").pop();
-        const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-        const { error: uploadError } = await supabase.storage
-          .from("complaint-attachments")
-          .upload(fileName, file);
+      // Create the complaint first; attachments are stored under its id
+      const { data: complaint, error: complaintError } = await supabase
+        .from("complaints")
+        .insert([{
+          student_id: user!.id,
+          title: title.trim(),
+          category: category as any,
+          description: description.trim(),
+          is_anonymous: isAnonymous,
+        }])
+        .select("id")
+        .single();
 
-        if (uploadError) throw uploadError;
+      if (complaintError) throw complaintError;
 
-        // Create attachment record
-        const { data: attachmentData, error: attachmentError } = await supabase
-          .from("attachments")
-          .insert({
-            owner_user_id: user.id,
-            original_filename: file.name,
-            stored_path: fileName,
-            mime_type: file.type,
-            byte_size: file.size,
+      const results = await Promise.allSettled(
+        files.map((file, index) =>
+          uploadAttachment({
+            complaintId: complaint.id,
+            ownerId: user!.id,
+            file,
+            onProgress: (percent) =>
+              setProgress((prev) => {
+                const next = [...prev];
+                next[index] = percent;
+                return next;
+              }),
           })
-          .select()
-          .single();
+        )
+      );
+      const failed = files.filter((_, index) => results[index].status === "rejected");
 
-        if (attachmentError) throw attachmentError;
-        attachmentId = attachmentData.id;
+      if (failed.length > 0) {
+        toast({
+          variant: "destructive",
+          title: "Some attachments failed",
+          description: `Your complaint was submitted, but ${failed.map((f) => f.name).join(", ")} could not be uploaded.`,
+        });
+        navigate(`/student/complaint/${complaint.id}`);
+        return;
       }
 
-      // Create complaint
-      const { error: complaintError } = await supabase.from("complaints").insert([{
-        student_id: user!.id,
-        title: title.trim(),
-        category: category as any,
-        description: description.trim(),
-        attachment_id: attachmentId,
-      }]);
-
-      if (complaintError) throw complaintError;
-
       toast({
         title: "Complaint submitted!",
         description: "Your complaint has been submitted successfully.",
@@ -239,28 +248,67 @@ export default function NewComplaint() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="attachment">Attachment (Optional)</Label>
+                <Label htmlFor="attachment">Attachments (Optional)</Label>
                 <div className="flex items-center gap-4">
                   <Input
                     id="attachment"
                     type="file"
+                    multiple
                     onChange={handleFileChange}
-                    disabled={loading}
+                    disabled={loading || files.length >= MAX_ATTACHMENTS}
                     accept=".pdf,.jpg,.jpeg,.png"
                     className="cursor-pointer"
                   />
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Accepted formats: PDF, JPG, PNG (Max 10MB)
+                  Accepted formats: PDF, JPG, PNG (Max 10MB each, up to {MAX_ATTACHMENTS} files)
                 </p>
-                {file && (
-                  <p className="text-sm text-primary">
-                    <Upload className="inline h-4 w-4 mr-1" />
-                    {file.name} ({(file.size / 1024 / 1024).toFixed(2)} MB)
-                  </p>
+                {files.length > 0 && (
+                  <ul className="space-y-2">
+                    {files.map((file, index) => (
+                      <li key={`${file.name}-${index}`} className="rounded-lg border p-2 text-sm">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="flex min-w-0 items-center text-primary">
+                            <Upload className="mr-1 h-4 w-4 shrink-0" />
+                            <span className="truncate">{file.name}</span>
+                            <span className="ml-2 shrink-0 text-xs text-muted-foreground">
+                              {formatFileSize(file.size)}
+                            </span>
+                          </span>
+                          {!loading && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeFile(index)}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                        {loading && <Progress value={progress[index] ?? 0} className="mt-2 h-1.5" />}
+                      </li>
+                    ))}
+                  </ul>
                 )}
               </div>
 
+              <div className="flex items-start gap-3 rounded-lg border p-3">
+                <Checkbox
+                  id="anonymous"
+                  checked={isAnonymous}
+                  onCheckedChange={(checked) => setIsAnonymous(checked === true)}
+                  disabled={loading}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="anonymous">Submit anonymously</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Staff handling your complaint will not see your name or email. Only a grievance
+                    officer can reveal your identity, and every reveal is logged with a reason.
+                  </p>
+                </div>
+              </div>
+
               <div className="flex gap-4">
                 <Button type="submit" disabled={loading} className="flex-1">
                   {loading ? "Submitting..." : "Submit Complaint"}
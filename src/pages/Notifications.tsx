@@ -0,0 +1,118 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useNotifications, useOpenNotification } from "@/hooks/use-notifications";
+import { Notification } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { ArrowLeft, Bell, CheckCheck } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+export default function Notifications() {
+  const { user, profile, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const openNotification = useOpenNotification();
+  const { notifications, unreadCount, loading, markRead, markAllRead } = useNotifications(100);
+  const home = profile?.role === "admin" ? "/admin" : "/student";
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  const handleOpen = (notification: Notification) => {
+    markRead(notification.id);
+    openNotification(notification);
+  };
+
+  if (authLoading || (user && loading)) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate(home)}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-3xl px-4 py-8">
+        <div className="mb-6 flex items-end justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">Notifications</h2>
+            <p className="text-muted-foreground">
+              {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up"}
+            </p>
+          </div>
+          <Button variant="outline" onClick={markAllRead} disabled={unreadCount === 0}>
+            <CheckCheck className="mr-2 h-4 w-4" />
+            Mark all read
+          </Button>
+        </div>
+
+        {notifications.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center gap-2 py-12 text-center text-muted-foreground">
+              <Bell className="h-10 w-10" />
+              <p>No notifications yet</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <div className="divide-y">
+              {notifications.map((notification) => (
+                <div
+                  key={notification.id}
+                  className={cn(
+                    "flex items-start gap-3 p-4",
+                    !notification.read_at && "bg-primary/5",
+                    notification.complaint_id && "cursor-pointer hover:bg-muted/50"
+                  )}
+                  onClick={() => handleOpen(notification)}
+                >
+                  <span
+                    className={cn(
+                      "mt-2 h-2 w-2 shrink-0 rounded-full",
+                      notification.read_at ? "bg-transparent" : "bg-primary"
+                    )}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className={cn("text-sm", !notification.read_at && "font-medium")}>{notification.title}</p>
+                    {notification.body && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">{notification.body}</p>
+                    )}
+                    <p className="mt-1 text-xs text-muted-foreground" title={format(new Date(notification.created_at), "PPp")}>
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!notification.read_at && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        markRead(notification.id);
+                      }}
+                    >
+                      Mark read
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
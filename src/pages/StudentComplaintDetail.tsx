@@ -5,9 +5,15 @@ import { useAuth } from "@/lib/auth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { StatusBadge } from "@/components/StatusBadge";
+import { ComplaintThread } from "@/components/ComplaintThread";
+import { StatusTimeline } from "@/components/StatusTimeline";
+import { ResolutionActions } from "@/components/ResolutionActions";
+import { AttachmentList } from "@/components/AttachmentList";
 import { Complaint, ComplaintStatusHistory } from "@/lib/types";
-import { ArrowLeft, Download, Clock } from "lucide-react";
-import { formatDistanceToNow, format } from "date-fns";
+import { CATEGORY_LABELS } from "@/lib/categories";
+import { useComplaintActivity, useRecentlyUpdated } from "@/hooks/use-complaint-activity";
+import { ArrowLeft, EyeOff } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 import { Separator } from "@/components/ui/separator";
 
 export default function StudentComplaintDetail() {
@@ -17,6 +23,7 @@ export default function StudentComplaintDetail() {
   const [complaint, setComplaint] = useState<Complaint | null>(null);
   const [history, setHistory] = useState<ComplaintStatusHistory[]>([]);
   const [loading, setLoading] = useState(true);
+  const { isRecent, markUpdated } = useRecentlyUpdated();
 
   useEffect(() => {
     if (id) {
@@ -46,38 +53,26 @@ export default function StudentComplaintDetail() {
       .order("changed_at", { ascending: true });
 
     if (!error && data) {
-      setHistory(data);
+      setHistory(data as ComplaintStatusHistory[]);
     }
   };
 
-  const downloadAttachment = async () => {
-    if (!complaint?.attachment_id) return;
-
-    try {
-      const { data: attachmentData } = await supabase
-        .from("attachments")
-        .select("*")
-        .eq("id", complaint.attachment_id)
-        .single();
-
-      if (attachmentData) {
-        const { data } = await supabase.storage
-          .from("complaint-attachments")
-          .download(attachmentData.stored_path);
-
-        if (data) {
-          const url = URL.createObjectURL(data);
-          const a = document.createElement("a");
-          a.href = url;
-          a.download = attachmentData.original_filename;
-          a.click();
-        }
-      }
-    } catch (error) {
-      console.error("Error downloading file:", error);
-    }
+  const refresh = () => {
+    fetchComplaint();
+    fetchHistory();
   };
 
+  useComplaintActivity(
+    `student-complaint:${id}`,
+    (activity) => {
+      if (activity.source === "complaints" || activity.source === "complaint_status_history") {
+        refresh();
+        markUpdated(activity.complaint_id);
+      }
+    },
+    { complaintId: id, enabled: !!id }
+  );
+
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -94,15 +89,6 @@ export default function StudentComplaintDetail() {
     );
   }
 
-  const categoryLabels: Record<string, string> = {
-    mentor: "Mentor",
-    admin: "Admin",
-    academic_counsellor: "Academic Counsellor",
-    working_hub: "Working Hub",
-    peer: "Peer",
-    other: "Other",
-  };
-
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card">
@@ -122,12 +108,26 @@ export default function StudentComplaintDetail() {
                 <div className="space-y-1 flex-1">
                   <CardTitle className="text-2xl">{complaint.title}</CardTitle>
                   <CardDescription className="flex items-center gap-4">
-                    <span>{categoryLabels[complaint.category]}</span>
+                    <span>{CATEGORY_LABELS[complaint.category]}</span>
                     <span>•</span>
                     <span>Submitted {formatDistanceToNow(new Date(complaint.created_at), { addSuffix: true })}</span>
+                    {complaint.is_anonymous && (
+                      <>
+                        <span>•</span>
+                        <span className="flex items-center gap-1">
+                          <EyeOff className="h-3 w-3" />
+                          Anonymous
+                        </span>
+                      </>
+                    )}
                   </CardDescription>
                 </div>
-                <StatusBadge status={complaint.status} />
+                <div className="flex flex-col items-end gap-2">
+                  {isRecent(complaint.id) && (
+                    <span className="text-xs font-medium text-primary">Updated just now</span>
+                  )}
+                  <StatusBadge status={complaint.status} />
+                </div>
               </div>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -138,20 +138,12 @@ export default function StudentComplaintDetail() {
                 </p>
               </div>
 
-              {complaint.attachment_id && (
-                <div>
-                  <h3 className="text-sm font-semibold mb-2">Attachment</h3>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={downloadAttachment}
-                    className="gap-2"
-                  >
-                    <Download className="h-4 w-4" />
-                    Download Attachment
-                  </Button>
-                </div>
-              )}
+              <AttachmentList
+                complaintId={complaint.id}
+                viewer="student"
+                canUpload={complaint.status !== "closed"}
+                onUploaded={fetchHistory}
+              />
 
               {complaint.admin_note && (
                 <div className="rounded-lg border bg-secondary/30 p-4">
@@ -161,45 +153,17 @@ export default function StudentComplaintDetail() {
                   </p>
                 </div>
               )}
+
+              <ResolutionActions
+                complaint={complaint}
+                onUpdated={refresh}
+              />
             </CardContent>
           </Card>
 
-          {history.length > 0 && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-xl">Status History</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {history.map((entry, index) => (
-                    <div key={entry.id} className="flex gap-4">
-                      <div className="flex flex-col items-center">
-                        <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary/10">
-                          <Clock className="h-4 w-4 text-primary" />
-                        </div>
-                        {index < history.length - 1 && (
-                          <div className="h-full w-px bg-border mt-2" />
-                        )}
-                      </div>
-                      <div className="flex-1 pb-4">
-                        <div className="flex items-center gap-2 mb-1">
-                          <StatusBadge status={entry.to_status} />
-                          <span className="text-sm text-muted-foreground">
-                            {format(new Date(entry.changed_at), "PPp")}
-                          </span>
-                        </div>
-                        {entry.note_snapshot && (
-                          <p className="text-sm text-muted-foreground mt-2">
-                            {entry.note_snapshot}
-                          </p>
-                        )}
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
-          )}
+          <ComplaintThread complaintId={complaint.id} viewer="student" />
+
+          <StatusTimeline history={history} viewer="student" />
         </div>
       </main>
     </div>
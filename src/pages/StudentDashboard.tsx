@@ -5,8 +5,13 @@ import { useAuth } from "@/lib/auth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { StatusBadge } from "@/components/StatusBadge";
+import { NotificationBell } from "@/components/NotificationBell";
+import { EmailPreferences } from "@/components/EmailPreferences";
 import { Complaint } from "@/lib/types";
-import { Plus, LogOut, FileText, Calendar } from "lucide-react";
+import { CATEGORY_LABELS } from "@/lib/categories";
+import { useComplaintActivity, useRecentlyUpdated } from "@/hooks/use-complaint-activity";
+import { cn } from "@/lib/utils";
+import { Plus, LogOut, FileText, Calendar, EyeOff } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
 export default function StudentDashboard() {
@@ -14,6 +19,7 @@ export default function StudentDashboard() {
   const navigate = useNavigate();
   const [complaints, setComplaints] = useState<Complaint[]>([]);
   const [loading, setLoading] = useState(true);
+  const { isRecent, markUpdated } = useRecentlyUpdated();
 
   useEffect(() => {
     if (!authLoading) {
@@ -44,6 +50,28 @@ export default function StudentDashboard() {
     setLoading(false);
   };
 
+  // Patch a single complaint in place when it changes elsewhere
+  const refreshComplaint = async (complaintId: string) => {
+    const { data, error } = await supabase
+      .from("complaints")
+      .select("*")
+      .eq("id", complaintId)
+      .maybeSingle();
+
+    if (!error && data) {
+      setComplaints((prev) =>
+        prev.some((c) => c.id === data.id)
+          ? prev.map((c) => (c.id === data.id ? data : c))
+          : [data, ...prev]
+      );
+      markUpdated(data.id);
+    }
+  };
+
+  useComplaintActivity("student-dashboard", (activity) => refreshComplaint(activity.complaint_id), {
+    enabled: !!user,
+  });
+
   if (authLoading || loading) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -55,15 +83,6 @@ export default function StudentDashboard() {
     );
   }
 
-  const categoryLabels: Record<string, string> = {
-    mentor: "Mentor",
-    admin: "Admin",
-    academic_counsellor: "Academic Counsellor",
-    working_hub: "Working Hub",
-    peer: "Peer",
-    other: "Other",
-  };
-
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card">
@@ -73,6 +92,8 @@ export default function StudentDashboard() {
             <p className="text-sm text-muted-foreground">Welcome, {profile?.full_name}</p>
           </div>
           <div className="flex gap-2">
+            <NotificationBell />
+            <EmailPreferences />
             <Button onClick={() => navigate("/student/new-complaint")}>
               <Plus className="mr-2 h-4 w-4" />
               New Complaint
@@ -112,7 +133,10 @@ export default function StudentDashboard() {
             {complaints.map((complaint) => (
               <Card
                 key={complaint.id}
-                className="cursor-pointer transition-shadow hover:shadow-md"
+                className={cn(
+                  "cursor-pointer transition-shadow hover:shadow-md",
+                  isRecent(complaint.id) && "ring-2 ring-primary/40"
+                )}
                 onClick={() => navigate(`/student/complaint/${complaint.id}`)}
               >
                 <CardHeader>
@@ -125,8 +149,17 @@ export default function StudentDashboard() {
                           {formatDistanceToNow(new Date(complaint.created_at), { addSuffix: true })}
                         </span>
                         <span className="capitalize">
-                          {categoryLabels[complaint.category]}
+                          {CATEGORY_LABELS[complaint.category]}
                         </span>
+                        {complaint.is_anonymous && (
+                          <span className="flex items-center gap-1">
+                            <EyeOff className="h-3 w-3" />
+                            Anonymous
+                          </span>
+                        )}
+                        {isRecent(complaint.id) && (
+                          <span className="font-medium text-primary">Updated just now</span>
+                        )}
                       </CardDescription>
                     </div>
                     <StatusBadge status={complaint.status} />
@@ -0,0 +1,77 @@
+// Serves an attachment staff cannot read by path: files uploaded before
+// attachments moved to <complaint_id>/ are stored under the student's id,
+// which admin_attachments hides on anonymous complaints. The caller must be
+// able to see the attachment in admin_attachments; the file is then read
+// with the service role and returned as the response body. A signed URL is
+// not handed out because it would contain the path.
+//
+// POST body: { attachmentId }
+//
+// Environment:
+//   SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY  provided by the edge runtime
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const BUCKET = "complaint-attachments";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const env = (name: string) => {
+  const value = Deno.env.get(name);
+  if (value === undefined) throw new Error(`Missing environment variable ${name}`);
+  return value;
+};
+
+const errorResponse = (message: string, status: number) =>
+  Response.json({ error: message }, { status, headers: corsHeaders });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return errorResponse("Method not allowed", 405);
+  }
+
+  let attachmentId: string;
+  try {
+    attachmentId = String((await req.json()).attachmentId ?? "");
+  } catch {
+    return errorResponse("Invalid request body", 400);
+  }
+
+  const supabase = createClient(env("SUPABASE_URL"), env("SUPABASE_ANON_KEY"), {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+
+  // Only returns a row to admins, for attachments on complaints they can see
+  const { data: visible } = await supabase
+    .from("admin_attachments")
+    .select("id, mime_type")
+    .eq("id", attachmentId)
+    .maybeSingle();
+  if (!visible) {
+    return errorResponse("Attachment not found", 404);
+  }
+
+  const admin = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"));
+  const { data: attachment, error } = await admin
+    .from("attachments")
+    .select("stored_path")
+    .eq("id", visible.id)
+    .single();
+  if (error) {
+    return errorResponse(error.message, 500);
+  }
+
+  const { data: file, error: downloadError } = await admin.storage.from(BUCKET).download(attachment.stored_path);
+  if (downloadError) {
+    return errorResponse(downloadError.message, 500);
+  }
+
+  return new Response(file, {
+    headers: { ...corsHeaders, "Content-Type": visible.mime_type, "Cache-Control": "private, no-store" },
+  });
+});
@@ -0,0 +1,99 @@
+// Columns of the complaint export. Mirrors the labels in src/lib, which the
+// edge runtime cannot import.
+
+export type Cell = string | number | null;
+
+export interface ExportRow {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  status: string;
+  is_anonymous: boolean;
+  student_full_name: string | null;
+  student_email: string | null;
+  assignee_full_name: string | null;
+  admin_note: string | null;
+  created_at: string;
+  updated_at: string;
+  first_responded_at: string | null;
+  resolve_due_at: string | null;
+  resolved_at: string | null;
+  reopen_count: number;
+}
+
+export interface RowContext {
+  tags: string[];
+  // Hours spent in each status, from complaint_status_history
+  hoursInStatus: Record<string, number>;
+  formatDate: (value: string | null) => string;
+}
+
+interface ExportColumn {
+  header: string;
+  value: (row: ExportRow, context: RowContext) => Cell;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  mentor: "Mentor",
+  admin: "Admin",
+  academic_counsellor: "Academic Counsellor",
+  working_hub: "Working Hub",
+  peer: "Peer",
+  other: "Other",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  open: "Open",
+  triaged: "Triaged",
+  in_progress: "In Progress",
+  waiting_on_student: "Waiting on Student",
+  escalated: "Escalated",
+  resolved: "Resolved",
+  rejected: "Rejected",
+  closed: "Closed",
+};
+
+// Statuses in which someone still has to act; time in the terminal ones is not reported
+const WORKING_STATUSES = ["open", "triaged", "in_progress", "waiting_on_student", "escalated"];
+
+const hoursBetween = (from: string, to: string | null) =>
+  to ? Math.round(((new Date(to).getTime() - new Date(from).getTime()) / 3_600_000) * 10) / 10 : null;
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: "ID", value: (r) => r.id },
+  { header: "Submitted", value: (r, c) => c.formatDate(r.created_at) },
+  { header: "Title", value: (r) => r.title },
+  { header: "Category", value: (r) => CATEGORY_LABELS[r.category] ?? r.category },
+  { header: "Status", value: (r) => STATUS_LABELS[r.status] ?? r.status },
+  { header: "Student", value: (r) => (r.is_anonymous ? "Anonymous" : r.student_full_name ?? "") },
+  { header: "Student email", value: (r) => r.student_email ?? "" },
+  { header: "Assignee", value: (r) => r.assignee_full_name ?? "" },
+  { header: "Tags", value: (_r, c) => c.tags.join(", ") },
+  { header: "Admin note", value: (r) => r.admin_note ?? "" },
+  { header: "First response", value: (r, c) => c.formatDate(r.first_responded_at) },
+  { header: "Resolve by", value: (r, c) => c.formatDate(r.resolve_due_at) },
+  { header: "Resolved", value: (r, c) => c.formatDate(r.resolved_at) },
+  { header: "Updated", value: (r, c) => c.formatDate(r.updated_at) },
+  { header: "Reopened", value: (r) => r.reopen_count },
+  { header: "Hours to first response", value: (r) => hoursBetween(r.created_at, r.first_responded_at) },
+  { header: "Hours to resolve", value: (r) => hoursBetween(r.created_at, r.resolved_at) },
+  ...WORKING_STATUSES.map((status) => ({
+    header: `Hours ${STATUS_LABELS[status]}`,
+    value: (_r: ExportRow, c: RowContext) => c.hoursInStatus[status] ?? 0,
+  })),
+  { header: "Description", value: (r) => r.description },
+];
+
+// "2025-11-20 09:05" in the admin's time zone
+export const dateFormatter = (timeZone: string) => {
+  const formatter = new Intl.DateTimeFormat("sv-SE", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return (value: string | null) => (value ? formatter.format(new Date(value)) : "");
+};
@@ -0,0 +1,163 @@
+// Exports the admin complaint list, with the same filters and sort as the
+// dashboard, as CSV or XLSX. Pages are read from search_admin_complaints with
+// the caller's own token, so only admins get rows and anonymous complaints
+// stay masked, and each page is written to the response as soon as it
+// arrives.
+//
+// POST body: { filters, sort, ascending, format: "csv" | "xlsx", timeZone }
+// where filters is the _filters argument of search_admin_complaints.
+//
+// Environment:
+//   SUPABASE_URL, SUPABASE_ANON_KEY  provided by the edge runtime
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { dateFormatter, EXPORT_COLUMNS, type ExportRow } from "./columns.ts";
+import { csvWriter, type SheetWriter, xlsxWriter } from "./writers.ts";
+
+const PAGE_SIZE = 500;
+
+const SORT_COLUMNS = [
+  "created_at",
+  "title",
+  "category",
+  "student_full_name",
+  "assignee_full_name",
+  "status",
+  "resolve_due_at",
+  "updated_at",
+  "search_rank",
+];
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Expose-Headers": "content-disposition",
+};
+
+interface ExportRequest {
+  filters?: Record<string, unknown>;
+  sort?: string;
+  ascending?: boolean;
+  format?: string;
+  timeZone?: string;
+}
+
+const env = (name: string) => {
+  const value = Deno.env.get(name);
+  if (value === undefined) throw new Error(`Missing environment variable ${name}`);
+  return value;
+};
+
+const errorResponse = (message: string, status: number) =>
+  Response.json({ error: message }, { status, headers: corsHeaders });
+
+const safeFormatter = (timeZone: string | undefined) => {
+  try {
+    return dateFormatter(timeZone || "UTC");
+  } catch {
+    return dateFormatter("UTC");
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return errorResponse("Method not allowed", 405);
+  }
+
+  const supabase = createClient(env("SUPABASE_URL"), env("SUPABASE_ANON_KEY"), {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+
+  const { data: userData } = await supabase.auth.getUser();
+  const user = userData?.user;
+  if (!user) {
+    return errorResponse("Sign in to export complaints", 401);
+  }
+
+  const { data: isAdmin } = await supabase.rpc("has_role", { _user_id: user.id, _role: "admin" });
+  if (!isAdmin) {
+    return errorResponse("Only admins can export complaints", 403);
+  }
+
+  let body: ExportRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse("Invalid request body", 400);
+  }
+
+  const sort = SORT_COLUMNS.includes(body.sort ?? "") ? body.sort! : "created_at";
+  const ascending = body.ascending === true;
+  const formatDate = safeFormatter(body.timeZone);
+
+  // Tags and time in status for one page of complaints
+  const fetchDetails = async (ids: string[]) => {
+    const [tagResult, durationResult] = await Promise.all([
+      supabase.from("complaint_tags").select("complaint_id, tag").in("complaint_id", ids).order("tag"),
+      supabase.rpc("complaint_status_durations", { _complaint_ids: ids }),
+    ]);
+    if (tagResult.error) throw tagResult.error;
+    if (durationResult.error) throw durationResult.error;
+
+    const tags: Record<string, string[]> = {};
+    for (const { complaint_id, tag } of tagResult.data) {
+      (tags[complaint_id] ??= []).push(tag);
+    }
+    const hours: Record<string, Record<string, number>> = {};
+    for (const { complaint_id, status, hours: value } of durationResult.data) {
+      (hours[complaint_id] ??= {})[status] = Number(value);
+    }
+    return { tags, hours };
+  };
+
+  let writer: SheetWriter;
+  let page = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const push = (chunk: Uint8Array, final: boolean) => {
+        if (chunk.length > 0) controller.enqueue(chunk);
+        if (final) controller.close();
+      };
+      writer = body.format === "xlsx" ? xlsxWriter(push, (error) => controller.error(error)) : csvWriter(push);
+      writer.row(EXPORT_COLUMNS.map((column) => column.header));
+    },
+    async pull(controller) {
+      try {
+        const from = page * PAGE_SIZE;
+        const { data, error } = await supabase
+          .rpc("search_admin_complaints", { _filters: body.filters ?? {} })
+          .order(sort, { ascending, nullsFirst: false })
+          .order("id")
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+
+        const rows = (data ?? []) as ExportRow[];
+        if (rows.length > 0) {
+          const { tags, hours } = await fetchDetails(rows.map((row) => row.id));
+          for (const row of rows) {
+            const context = { tags: tags[row.id] ?? [], hoursInStatus: hours[row.id] ?? {}, formatDate };
+            writer.row(EXPORT_COLUMNS.map((column) => column.value(row, context)));
+          }
+        }
+
+        page++;
+        if (rows.length < PAGE_SIZE) writer.end();
+      } catch (exportError) {
+        // The download has already started, so the client sees a failed stream
+        console.error("Complaint export failed", exportError);
+        controller.error(exportError);
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": writer!.contentType,
+      "Content-Disposition": `attachment; filename="complaints.${writer!.extension}"`,
+    },
+  });
+});
@@ -0,0 +1,112 @@
+// Streaming CSV and XLSX writers. Rows are written as they arrive so large
+// exports never sit in memory as a whole file.
+import { Zip, ZipDeflate, strToU8 } from "npm:fflate@0.8";
+import type { Cell } from "./columns.ts";
+
+export interface SheetWriter {
+  contentType: string;
+  extension: string;
+  row: (cells: Cell[]) => void;
+  end: () => void;
+}
+
+type Push = (chunk: Uint8Array, final: boolean) => void;
+
+// Quotes every field and neutralises leading =, +, - and @ so spreadsheet apps
+// do not evaluate complaint text as formulas
+const csvField = (value: Cell) => {
+  const text = value === null ? "" : String(value);
+  const safe = typeof value === "string" && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+};
+
+export const csvWriter = (push: Push): SheetWriter => {
+  // BOM so Excel opens UTF-8 names correctly
+  push(strToU8("\uFEFF"), false);
+
+  return {
+    contentType: "text/csv; charset=utf-8",
+    extension: "csv",
+    row: (cells) => push(strToU8(`${cells.map(csvField).join(",")}\r\n`), false),
+    end: () => push(new Uint8Array(), true),
+  };
+};
+
+// Control characters other than tab and line breaks are not allowed in XML 1.0
+const isXmlChar = (char: string) => char >= " " || char === "\t" || char === "\n" || char === "\r";
+
+const escapeXml = (value: string) =>
+  Array.from(value)
+    .filter(isXmlChar)
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const xlsxCell = (value: Cell) => {
+  if (value === null || value === "") return "<c/>";
+  if (typeof value === "number") return `<c><v>${value}</v></c>`;
+  return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const XLSX_PARTS: Record<string, string> = {
+  "[Content_Types].xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    "</Types>",
+  "_rels/.rels":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    "</Relationships>",
+  "xl/workbook.xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="Complaints" sheetId="1" r:id="rId1"/></sheets>' +
+    "</workbook>",
+  "xl/_rels/workbook.xml.rels":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    "</Relationships>",
+};
+
+// A minimal workbook with one sheet of inline strings, zipped on the fly
+export const xlsxWriter = (push: Push, onError: (error: Error) => void): SheetWriter => {
+  const zip = new Zip((error, chunk, final) => {
+    if (error) onError(error);
+    else push(chunk, final);
+  });
+
+  for (const [name, content] of Object.entries(XLSX_PARTS)) {
+    const part = new ZipDeflate(name, { level: 6 });
+    zip.add(part);
+    part.push(strToU8(content), true);
+  }
+
+  const sheet = new ZipDeflate("xl/worksheets/sheet1.xml", { level: 6 });
+  zip.add(sheet);
+  sheet.push(
+    strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews>' +
+        "<sheetData>"
+    )
+  );
+
+  return {
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extension: "xlsx",
+    row: (cells) => sheet.push(strToU8(`<row>${cells.map(xlsxCell).join("")}</row>`)),
+    end: () => {
+      sheet.push(strToU8("</sheetData></worksheet>"), true);
+      zip.end();
+    },
+  };
+};
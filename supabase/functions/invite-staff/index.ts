@@ -0,0 +1,88 @@
+// Invites a member of staff. The invite_staff function, called with the
+// caller's own token, checks that they are an admin, records the invitation
+// and grants the role at once when the account already exists. Otherwise an
+// invitation email is sent from Supabase Auth and the role is granted when
+// the invitee confirms their email address, if that is within seven days.
+//
+// POST body: { email, fullName, role: "admin" | "grievance_officer" }
+// Response: { invited: true } when an email was sent, { invited: false }
+// when an existing account was given the role.
+//
+// Environment:
+//   APP_URL                     where the invitation link sends the invitee
+//   SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY  provided by the edge runtime
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface InviteRequest {
+  email?: string;
+  fullName?: string;
+  role?: string;
+}
+
+const env = (name: string, fallback?: string) => {
+  const value = Deno.env.get(name) ?? fallback;
+  if (value === undefined) throw new Error(`Missing environment variable ${name}`);
+  return value;
+};
+
+const errorResponse = (message: string, status: number, code?: string) =>
+  Response.json({ error: message, code }, { status, headers: corsHeaders });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return errorResponse("Method not allowed", 405);
+  }
+
+  const supabase = createClient(env("SUPABASE_URL"), env("SUPABASE_ANON_KEY"), {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData?.user) {
+    return errorResponse("Sign in to invite staff", 401);
+  }
+
+  let body: InviteRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse("Invalid request body", 400);
+  }
+
+  const email = (body.email ?? "").trim().toLowerCase();
+  const fullName = (body.fullName ?? "").trim();
+
+  const { data: needsAccount, error } = await supabase.rpc("invite_staff", {
+    _email: email,
+    _full_name: fullName,
+    _role: body.role,
+  });
+  if (error) {
+    return errorResponse(error.message, error.code === "BR004" ? 403 : 400, error.code);
+  }
+
+  if (!needsAccount) {
+    return Response.json({ invited: false }, { headers: corsHeaders });
+  }
+
+  const admin = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"));
+  const { error: inviteError } = await admin.auth.admin.inviteUserByEmail(email, {
+    data: { full_name: fullName },
+    redirectTo: `${env("APP_URL").replace(/\/$/, "")}/auth`,
+  });
+  if (inviteError) {
+    // The invitation row stays, so the role is still granted if they sign up and confirm themselves
+    console.error("Staff invitation email failed", inviteError);
+    return errorResponse(`The invitation was saved but the email could not be sent: ${inviteError.message}`, 502);
+  }
+
+  return Response.json({ invited: true }, { headers: corsHeaders });
+});
@@ -0,0 +1,85 @@
+// Drains public.email_outbox: claims due rows, renders them and sends them
+// over SMTP, then reports success or failure so the database can schedule
+// retries with backoff.
+//
+// Invoke it on a schedule (for example every minute from pg_cron with
+// pg_net, or any external scheduler) using the service role key.
+//
+// Environment:
+//   SMTP_HOST, SMTP_PORT        SMTP server (Mailpit locally: host.docker.internal / 1025)
+//   SMTP_USERNAME, SMTP_PASSWORD  optional, omitted for servers without auth
+//   SMTP_TLS                    "true" to connect over TLS
+//   SMTP_FROM                   sender, e.g. "BrotoRaise <no-reply@example.com>"
+//   APP_URL                     base URL used for links in emails
+//   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY  provided by the edge runtime
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { renderEmail } from "./templates.ts";
+
+const BATCH_SIZE = 20;
+
+interface OutboxRow {
+  id: string;
+  to_email: string;
+  template: string;
+  payload: Record<string, string | null>;
+  attempts: number;
+}
+
+const env = (name: string, fallback?: string) => {
+  const value = Deno.env.get(name) ?? fallback;
+  if (value === undefined) throw new Error(`Missing environment variable ${name}`);
+  return value;
+};
+
+Deno.serve(async () => {
+  const supabase = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"));
+
+  const { data: rows, error } = await supabase.rpc("claim_email_outbox", { _batch_size: BATCH_SIZE });
+  if (error) {
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const claimed = (rows ?? []) as OutboxRow[];
+  if (claimed.length === 0) {
+    return Response.json({ sent: 0, failed: 0 });
+  }
+
+  const username = Deno.env.get("SMTP_USERNAME");
+  const client = new SMTPClient({
+    connection: {
+      hostname: env("SMTP_HOST"),
+      port: Number(env("SMTP_PORT", "1025")),
+      tls: env("SMTP_TLS", "false") === "true",
+      ...(username ? { auth: { username, password: env("SMTP_PASSWORD") } } : {}),
+    },
+  });
+
+  const from = env("SMTP_FROM");
+  const appUrl = env("APP_URL").replace(/\/$/, "");
+  let sent = 0;
+  let failed = 0;
+
+  for (const row of claimed) {
+    try {
+      const email = renderEmail(row.template, row.payload, appUrl);
+      await client.send({
+        from,
+        to: row.to_email,
+        subject: email.subject,
+        content: email.text,
+        html: email.html,
+      });
+      await supabase.rpc("complete_email_outbox", { _id: row.id });
+      sent++;
+    } catch (sendError) {
+      const message = sendError instanceof Error ? sendError.message : String(sendError);
+      await supabase.rpc("complete_email_outbox", { _id: row.id, _error: message });
+      failed++;
+    }
+  }
+
+  await client.close();
+
+  return Response.json({ sent, failed });
+});
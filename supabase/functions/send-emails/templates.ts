@@ -0,0 +1,100 @@
+// Email templates for the outbox. Each template receives the JSON payload
+// written by the enqueue_* triggers (see migrations) and the app's base URL.
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+type Payload = Record<string, string | null | undefined>;
+
+const CATEGORY_LABELS: Record<string, string> = {
+  mentor: "Mentor",
+  admin: "Admin",
+  academic_counsellor: "Academic Counsellor",
+  working_hub: "Working Hub",
+  peer: "Peer",
+  other: "Other",
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const layout = (heading: string, paragraphs: string[], link: { href: string; label: string }) => `<!doctype html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+    <h2 style="margin-bottom: 16px;">${escapeHtml(heading)}</h2>
+    ${paragraphs.map((p) => `<p>${p}</p>`).join("\n    ")}
+    <p><a href="${escapeHtml(link.href)}" style="color: #2563eb;">${escapeHtml(link.label)}</a></p>
+    <p style="color: #6b7280; font-size: 12px;">You can turn these emails off from your dashboard's email preferences.</p>
+  </body>
+</html>`;
+
+const renderStatusChange = (payload: Payload, appUrl: string): RenderedEmail => {
+  const title = payload.complaint_title ?? "your complaint";
+  const link = `${appUrl}/student/complaint/${payload.complaint_id}`;
+  const note = payload.note?.trim();
+
+  return {
+    subject: `Your complaint is now ${payload.to_status}`,
+    text: [
+      `Hi ${payload.recipient_name ?? "there"},`,
+      "",
+      `The status of "${title}" changed from ${payload.from_status} to ${payload.to_status}.`,
+      ...(note ? ["", `Note from staff: ${note}`] : []),
+      "",
+      `View your complaint: ${link}`,
+    ].join("\n"),
+    html: layout(
+      `Your complaint is now ${payload.to_status}`,
+      [
+        `Hi ${escapeHtml(payload.recipient_name ?? "there")},`,
+        `The status of <strong>${escapeHtml(title)}</strong> changed from ${escapeHtml(payload.from_status ?? "")} to <strong>${escapeHtml(payload.to_status ?? "")}</strong>.`,
+        ...(note ? [`Note from staff: ${escapeHtml(note)}`] : []),
+      ],
+      { href: link, label: "View your complaint" }
+    ),
+  };
+};
+
+const renderNewComplaint = (payload: Payload, appUrl: string): RenderedEmail => {
+  const title = payload.complaint_title ?? "Untitled complaint";
+  const category = CATEGORY_LABELS[payload.category ?? ""] ?? payload.category ?? "Other";
+  const link = `${appUrl}/admin/complaint/${payload.complaint_id}`;
+
+  return {
+    subject: `New ${category} complaint: ${title}`,
+    text: [
+      `Hi ${payload.recipient_name ?? "there"},`,
+      "",
+      `A new complaint was submitted in ${category}: "${title}".`,
+      "",
+      `Open it: ${link}`,
+    ].join("\n"),
+    html: layout(
+      `New ${category} complaint`,
+      [
+        `Hi ${escapeHtml(payload.recipient_name ?? "there")},`,
+        `A new complaint was submitted in ${escapeHtml(category)}: <strong>${escapeHtml(title)}</strong>.`,
+      ],
+      { href: link, label: "Open the complaint" }
+    ),
+  };
+};
+
+const templates: Record<string, (payload: Payload, appUrl: string) => RenderedEmail> = {
+  status_change: renderStatusChange,
+  new_complaint: renderNewComplaint,
+};
+
+export const renderEmail = (template: string, payload: Payload, appUrl: string): RenderedEmail => {
+  const render = templates[template];
+  if (!render) throw new Error(`Unknown email template: ${template}`);
+  return render(payload, appUrl);
+};
@@ -0,0 +1,70 @@
+-- Create complaint messages table for the staff/student conversation thread
+CREATE TABLE public.complaint_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  author_user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  is_staff BOOLEAN NOT NULL DEFAULT false,
+  body TEXT NOT NULL CHECK (char_length(body) > 0 AND char_length(body) <= 5000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_complaint_messages_complaint_id_created_at ON public.complaint_messages(complaint_id, created_at);
+CREATE INDEX idx_complaint_messages_author_user_id ON public.complaint_messages(author_user_id);
+
+ALTER TABLE public.complaint_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for complaint_messages
+CREATE POLICY "Students can view messages on their complaints"
+  ON public.complaint_messages FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.complaints
+      WHERE complaints.id = complaint_messages.complaint_id
+      AND complaints.student_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all messages"
+  ON public.complaint_messages FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Students can reply on their complaints"
+  ON public.complaint_messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = author_user_id AND
+    is_staff = false AND
+    EXISTS (
+      SELECT 1 FROM public.complaints
+      WHERE complaints.id = complaint_messages.complaint_id
+      AND complaints.student_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can post staff messages"
+  ON public.complaint_messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = author_user_id AND
+    is_staff = true AND
+    public.has_role(auth.uid(), 'admin')
+  );
+
+-- Migrate existing admin notes into the thread as the first staff message.
+-- The author is the admin who last changed the status with that note, if known.
+INSERT INTO public.complaint_messages (complaint_id, author_user_id, is_staff, body, created_at)
+SELECT
+  c.id,
+  h.changed_by_user_id,
+  true,
+  c.admin_note,
+  COALESCE(h.changed_at, c.updated_at)
+FROM public.complaints c
+LEFT JOIN LATERAL (
+  SELECT csh.changed_by_user_id, csh.changed_at
+  FROM public.complaint_status_history csh
+  WHERE csh.complaint_id = c.id
+    AND csh.note_snapshot = c.admin_note
+    AND public.has_role(csh.changed_by_user_id, 'admin')
+  ORDER BY csh.changed_at ASC
+  LIMIT 1
+) h ON true
+WHERE c.admin_note IS NOT NULL AND char_length(trim(c.admin_note)) > 0;
@@ -0,0 +1,182 @@
+-- Global complaint workflow settings (single row)
+CREATE TABLE public.complaint_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  reopen_window_days INTEGER NOT NULL DEFAULT 7 CHECK (reopen_window_days > 0 AND reopen_window_days <= 90),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.complaint_settings (id) VALUES (true);
+
+ALTER TABLE public.complaint_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view complaint settings"
+  ON public.complaint_settings FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can update complaint settings"
+  ON public.complaint_settings FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_complaint_settings_updated_at
+  BEFORE UPDATE ON public.complaint_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Resolution tracking on complaints
+ALTER TABLE public.complaints
+  ADD COLUMN resolved_at TIMESTAMPTZ,
+  ADD COLUMN resolution_confirmed_at TIMESTAMPTZ,
+  ADD COLUMN reopen_count INTEGER NOT NULL DEFAULT 0 CHECK (reopen_count >= 0);
+
+UPDATE public.complaints c
+SET resolved_at = (
+  SELECT max(h.changed_at)
+  FROM public.complaint_status_history h
+  WHERE h.complaint_id = c.id AND h.to_status = 'resolved'
+)
+WHERE c.status = 'resolved';
+
+-- Function to maintain resolution fields and lock confirmed complaints
+CREATE OR REPLACE FUNCTION public.handle_complaint_resolution()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.resolution_confirmed_at IS NOT NULL AND (
+    OLD.status IS DISTINCT FROM NEW.status OR
+    OLD.admin_note IS DISTINCT FROM NEW.admin_note OR
+    NEW.resolution_confirmed_at IS DISTINCT FROM OLD.resolution_confirmed_at
+  ) THEN
+    RAISE EXCEPTION 'Complaint resolution was confirmed by the student and can no longer be changed';
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    IF NEW.status = 'resolved' THEN
+      NEW.resolved_at = now();
+    ELSE
+      NEW.resolved_at = NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_complaint_resolution
+  BEFORE UPDATE ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.handle_complaint_resolution();
+
+-- Log status changes; a transaction-local note (app.status_change_note) takes
+-- precedence over the admin note so student reasons are recorded as written
+CREATE OR REPLACE FUNCTION public.log_complaint_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Only log if status actually changed
+  IF (TG_OP = 'INSERT') OR (OLD.status IS DISTINCT FROM NEW.status) THEN
+    INSERT INTO public.complaint_status_history (
+      complaint_id,
+      changed_by_user_id,
+      from_status,
+      to_status,
+      note_snapshot
+    ) VALUES (
+      NEW.id,
+      COALESCE(auth.uid(), NEW.student_id),
+      CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END,
+      NEW.status,
+      COALESCE(NULLIF(current_setting('app.status_change_note', true), ''), NEW.admin_note)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Student action: reopen a resolved complaint within the configured window
+CREATE OR REPLACE FUNCTION public.reopen_complaint(_complaint_id UUID, _reason TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _complaint public.complaints;
+  _window_days INTEGER;
+BEGIN
+  IF _reason IS NULL OR char_length(trim(_reason)) = 0 OR char_length(_reason) > 5000 THEN
+    RAISE EXCEPTION 'A reason between 1 and 5000 characters is required to reopen a complaint';
+  END IF;
+
+  SELECT * INTO _complaint
+  FROM public.complaints
+  WHERE id = _complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _complaint.student_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF _complaint.status <> 'resolved' THEN
+    RAISE EXCEPTION 'Only resolved complaints can be reopened';
+  END IF;
+
+  IF _complaint.resolution_confirmed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'You already confirmed this complaint as resolved';
+  END IF;
+
+  SELECT reopen_window_days INTO _window_days FROM public.complaint_settings;
+
+  IF _complaint.resolved_at IS NOT NULL
+     AND _complaint.resolved_at + make_interval(days => _window_days) < now() THEN
+    RAISE EXCEPTION 'The % day window to reopen this complaint has passed', _window_days;
+  END IF;
+
+  PERFORM set_config('app.status_change_note', trim(_reason), true);
+
+  UPDATE public.complaints
+  SET status = 'open',
+      reopen_count = reopen_count + 1
+  WHERE id = _complaint_id;
+
+  PERFORM set_config('app.status_change_note', '', true);
+END;
+$$;
+
+-- Student action: confirm a resolved complaint, locking it permanently
+CREATE OR REPLACE FUNCTION public.confirm_complaint_resolution(_complaint_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _complaint public.complaints;
+BEGIN
+  SELECT * INTO _complaint
+  FROM public.complaints
+  WHERE id = _complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _complaint.student_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF _complaint.status <> 'resolved' THEN
+    RAISE EXCEPTION 'Only resolved complaints can be confirmed';
+  END IF;
+
+  IF _complaint.resolution_confirmed_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.complaints
+  SET resolution_confirmed_at = now()
+  WHERE id = _complaint_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reopen_complaint(UUID, TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.confirm_complaint_resolution(UUID) FROM anon;
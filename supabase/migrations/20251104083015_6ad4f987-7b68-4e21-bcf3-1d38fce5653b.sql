@@ -0,0 +1,7 @@
+-- Extend the complaint lifecycle. New enum values must be committed before
+-- they can be used, so the transition rules live in the next migration.
+ALTER TYPE public.complaint_status ADD VALUE IF NOT EXISTS 'triaged' AFTER 'open';
+ALTER TYPE public.complaint_status ADD VALUE IF NOT EXISTS 'waiting_on_student' AFTER 'in_progress';
+ALTER TYPE public.complaint_status ADD VALUE IF NOT EXISTS 'escalated' AFTER 'waiting_on_student';
+ALTER TYPE public.complaint_status ADD VALUE IF NOT EXISTS 'rejected' AFTER 'resolved';
+ALTER TYPE public.complaint_status ADD VALUE IF NOT EXISTS 'closed' AFTER 'rejected';
@@ -0,0 +1,171 @@
+-- Allowed status transitions, enforced by trigger on complaints
+CREATE TABLE public.complaint_status_transitions (
+  from_status public.complaint_status NOT NULL,
+  to_status public.complaint_status NOT NULL,
+  requires_note BOOLEAN NOT NULL DEFAULT false,
+  PRIMARY KEY (from_status, to_status),
+  CHECK (from_status <> to_status)
+);
+
+ALTER TABLE public.complaint_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view status transitions"
+  ON public.complaint_status_transitions FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+INSERT INTO public.complaint_status_transitions (from_status, to_status, requires_note) VALUES
+  ('open', 'triaged', false),
+  ('open', 'in_progress', false),
+  ('open', 'waiting_on_student', false),
+  ('open', 'escalated', false),
+  ('open', 'resolved', true),
+  ('open', 'rejected', true),
+  ('triaged', 'in_progress', false),
+  ('triaged', 'waiting_on_student', false),
+  ('triaged', 'escalated', false),
+  ('triaged', 'resolved', true),
+  ('triaged', 'rejected', true),
+  ('in_progress', 'waiting_on_student', false),
+  ('in_progress', 'escalated', false),
+  ('in_progress', 'resolved', true),
+  ('in_progress', 'rejected', true),
+  ('waiting_on_student', 'in_progress', false),
+  ('waiting_on_student', 'escalated', false),
+  ('waiting_on_student', 'resolved', true),
+  ('waiting_on_student', 'rejected', true),
+  ('waiting_on_student', 'closed', true),
+  ('escalated', 'in_progress', false),
+  ('escalated', 'waiting_on_student', false),
+  ('escalated', 'resolved', true),
+  ('escalated', 'rejected', true),
+  ('resolved', 'open', true),
+  ('resolved', 'closed', false),
+  ('rejected', 'open', true),
+  ('rejected', 'closed', false);
+
+-- Function to validate status on insert and status transitions on update
+CREATE OR REPLACE FUNCTION public.enforce_complaint_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _requires_note BOOLEAN;
+  _note TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'open' AND NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'New complaints must start in the open status';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT requires_note INTO _requires_note
+  FROM public.complaint_status_transitions
+  WHERE from_status = OLD.status AND to_status = NEW.status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cannot change status from % to %', OLD.status, NEW.status;
+  END IF;
+
+  -- Only a note written with this change counts; an earlier admin note
+  -- left on the complaint is not a reason for this transition
+  _note := COALESCE(
+    NULLIF(current_setting('app.status_change_note', true), ''),
+    CASE WHEN NEW.admin_note IS DISTINCT FROM OLD.admin_note THEN NEW.admin_note END
+  );
+
+  IF _requires_note AND (_note IS NULL OR char_length(trim(_note)) = 0) THEN
+    RAISE EXCEPTION 'A note is required to change status from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_complaint_status_transition
+  BEFORE INSERT OR UPDATE ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_complaint_status_transition();
+
+-- Keep resolved_at once a resolved complaint is closed
+CREATE OR REPLACE FUNCTION public.handle_complaint_resolution()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.resolution_confirmed_at IS NOT NULL AND (
+    OLD.status IS DISTINCT FROM NEW.status OR
+    OLD.admin_note IS DISTINCT FROM NEW.admin_note OR
+    NEW.resolution_confirmed_at IS DISTINCT FROM OLD.resolution_confirmed_at
+  ) THEN
+    RAISE EXCEPTION 'Complaint resolution was confirmed by the student and can no longer be changed';
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    IF NEW.status = 'resolved' THEN
+      NEW.resolved_at = now();
+    ELSIF NEW.status <> 'closed' THEN
+      NEW.resolved_at = NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Confirming a resolution now also closes the complaint
+CREATE OR REPLACE FUNCTION public.confirm_complaint_resolution(_complaint_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _complaint public.complaints;
+BEGIN
+  SELECT * INTO _complaint
+  FROM public.complaints
+  WHERE id = _complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _complaint.student_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF _complaint.resolution_confirmed_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF _complaint.status <> 'resolved' THEN
+    RAISE EXCEPTION 'Only resolved complaints can be confirmed';
+  END IF;
+
+  PERFORM set_config('app.status_change_note', 'Resolution confirmed by student', true);
+
+  UPDATE public.complaints
+  SET status = 'closed',
+      resolution_confirmed_at = now()
+  WHERE id = _complaint_id;
+
+  PERFORM set_config('app.status_change_note', '', true);
+END;
+$$;
+
+-- Close complaints whose resolution was already confirmed
+ALTER TABLE public.complaints DISABLE TRIGGER handle_complaint_resolution;
+
+SELECT set_config('app.status_change_note', 'Resolution confirmed by student', true);
+
+UPDATE public.complaints
+SET status = 'closed'
+WHERE status = 'resolved' AND resolution_confirmed_at IS NOT NULL;
+
+SELECT set_config('app.status_change_note', '', true);
+
+ALTER TABLE public.complaints ENABLE TRIGGER handle_complaint_resolution;
@@ -0,0 +1,222 @@
+-- Typed complaint workflow errors. Clients match on the SQLSTATE code:
+--   BR001 invalid_transition      BR004 not_authorized
+--   BR002 note_required           BR005 complaint_not_found
+--   BR003 complaint_locked        BR006 reopen_window_expired
+
+CREATE OR REPLACE FUNCTION public.enforce_complaint_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _requires_note BOOLEAN;
+  _note TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'open' AND NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'New complaints must start in the open status'
+        USING ERRCODE = 'BR001';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT requires_note INTO _requires_note
+  FROM public.complaint_status_transitions
+  WHERE from_status = OLD.status AND to_status = NEW.status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cannot change status from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'BR001',
+            DETAIL = json_build_object('from_status', OLD.status, 'to_status', NEW.status)::text;
+  END IF;
+
+  -- Only a note written with this change counts; an earlier admin note
+  -- left on the complaint is not a reason for this transition
+  _note := COALESCE(
+    NULLIF(current_setting('app.status_change_note', true), ''),
+    CASE WHEN NEW.admin_note IS DISTINCT FROM OLD.admin_note THEN NEW.admin_note END
+  );
+
+  IF _requires_note AND (_note IS NULL OR char_length(trim(_note)) = 0) THEN
+    RAISE EXCEPTION 'A note is required to change status from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'BR002',
+            DETAIL = json_build_object('from_status', OLD.status, 'to_status', NEW.status)::text;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_complaint_resolution()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.resolution_confirmed_at IS NOT NULL AND (
+    OLD.status IS DISTINCT FROM NEW.status OR
+    OLD.admin_note IS DISTINCT FROM NEW.admin_note OR
+    NEW.resolution_confirmed_at IS DISTINCT FROM OLD.resolution_confirmed_at
+  ) THEN
+    RAISE EXCEPTION 'Complaint resolution was confirmed by the student and can no longer be changed'
+      USING ERRCODE = 'BR003';
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    IF NEW.status = 'resolved' THEN
+      NEW.resolved_at = now();
+    ELSIF NEW.status <> 'closed' THEN
+      NEW.resolved_at = NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Admin action: change status and note in one validated call
+CREATE OR REPLACE FUNCTION public.update_complaint_status(
+  _complaint_id UUID,
+  _to_status public.complaint_status,
+  _note TEXT
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _complaint public.complaints;
+  _trimmed_note TEXT := NULLIF(trim(COALESCE(_note, '')), '');
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can update complaint status'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  IF char_length(_trimmed_note) > 5000 THEN
+    RAISE EXCEPTION 'Note must be at most 5000 characters'
+      USING ERRCODE = '22001';
+  END IF;
+
+  SELECT * INTO _complaint
+  FROM public.complaints
+  WHERE id = _complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found'
+      USING ERRCODE = 'BR005';
+  END IF;
+
+  IF _complaint.status = 'closed' THEN
+    RAISE EXCEPTION 'Closed complaints cannot be modified'
+      USING ERRCODE = 'BR003';
+  END IF;
+
+  UPDATE public.complaints
+  SET status = _to_status,
+      admin_note = _trimmed_note
+  WHERE id = _complaint_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reopen_complaint(_complaint_id UUID, _reason TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _complaint public.complaints;
+  _window_days INTEGER;
+BEGIN
+  IF _reason IS NULL OR char_length(trim(_reason)) = 0 OR char_length(_reason) > 5000 THEN
+    RAISE EXCEPTION 'A reason between 1 and 5000 characters is required to reopen a complaint'
+      USING ERRCODE = 'BR002';
+  END IF;
+
+  SELECT * INTO _complaint
+  FROM public.complaints
+  WHERE id = _complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _complaint.student_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Complaint not found'
+      USING ERRCODE = 'BR005';
+  END IF;
+
+  IF _complaint.resolution_confirmed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'You already confirmed this complaint as resolved'
+      USING ERRCODE = 'BR003';
+  END IF;
+
+  IF _complaint.status <> 'resolved' THEN
+    RAISE EXCEPTION 'Only resolved complaints can be reopened'
+      USING ERRCODE = 'BR001';
+  END IF;
+
+  SELECT reopen_window_days INTO _window_days FROM public.complaint_settings;
+
+  IF _complaint.resolved_at IS NOT NULL
+     AND _complaint.resolved_at + make_interval(days => _window_days) < now() THEN
+    RAISE EXCEPTION 'The % day window to reopen this complaint has passed', _window_days
+      USING ERRCODE = 'BR006';
+  END IF;
+
+  PERFORM set_config('app.status_change_note', trim(_reason), true);
+
+  UPDATE public.complaints
+  SET status = 'open',
+      reopen_count = reopen_count + 1
+  WHERE id = _complaint_id;
+
+  PERFORM set_config('app.status_change_note', '', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.confirm_complaint_resolution(_complaint_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _complaint public.complaints;
+BEGIN
+  SELECT * INTO _complaint
+  FROM public.complaints
+  WHERE id = _complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _complaint.student_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Complaint not found'
+      USING ERRCODE = 'BR005';
+  END IF;
+
+  IF _complaint.resolution_confirmed_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF _complaint.status <> 'resolved' THEN
+    RAISE EXCEPTION 'Only resolved complaints can be confirmed'
+      USING ERRCODE = 'BR001';
+  END IF;
+
+  PERFORM set_config('app.status_change_note', 'Resolution confirmed by student', true);
+
+  UPDATE public.complaints
+  SET status = 'closed',
+      resolution_confirmed_at = now()
+  WHERE id = _complaint_id;
+
+  PERFORM set_config('app.status_change_note', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_complaint_status(UUID, public.complaint_status, TEXT) FROM anon;
@@ -0,0 +1,95 @@
+-- Assign complaints to individual staff members
+ALTER TABLE public.complaints
+  ADD COLUMN assigned_to UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_complaints_assigned_to ON public.complaints(assigned_to);
+
+-- History rows now record different kinds of events
+ALTER TABLE public.complaint_status_history
+  ADD COLUMN event_type TEXT NOT NULL DEFAULT 'status_change',
+  ADD COLUMN from_assignee UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN to_assignee UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.complaint_status_history
+  ADD CONSTRAINT complaint_status_history_event_type_check
+  CHECK (event_type IN ('status_change', 'assignment'));
+
+-- Log status and assignment changes
+CREATE OR REPLACE FUNCTION public.log_complaint_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Only log if status actually changed
+  IF (TG_OP = 'INSERT') OR (OLD.status IS DISTINCT FROM NEW.status) THEN
+    INSERT INTO public.complaint_status_history (
+      complaint_id,
+      changed_by_user_id,
+      from_status,
+      to_status,
+      note_snapshot
+    ) VALUES (
+      NEW.id,
+      COALESCE(auth.uid(), NEW.student_id),
+      CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END,
+      NEW.status,
+      COALESCE(NULLIF(current_setting('app.status_change_note', true), ''), NEW.admin_note)
+    );
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.assigned_to IS DISTINCT FROM NEW.assigned_to THEN
+    INSERT INTO public.complaint_status_history (
+      complaint_id,
+      changed_by_user_id,
+      event_type,
+      from_status,
+      to_status,
+      from_assignee,
+      to_assignee
+    ) VALUES (
+      NEW.id,
+      COALESCE(auth.uid(), NEW.student_id),
+      'assignment',
+      NEW.status,
+      NEW.status,
+      OLD.assigned_to,
+      NEW.assigned_to
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Admin action: assign, reassign or unassign a complaint
+CREATE OR REPLACE FUNCTION public.assign_complaint(_complaint_id UUID, _assignee_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can assign complaints'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  IF _assignee_id IS NOT NULL AND NOT public.has_role(_assignee_id, 'admin') THEN
+    RAISE EXCEPTION 'Complaints can only be assigned to staff members'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  UPDATE public.complaints
+  SET assigned_to = _assignee_id
+  WHERE id = _complaint_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found'
+      USING ERRCODE = 'BR005';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assign_complaint(UUID, UUID) FROM anon;
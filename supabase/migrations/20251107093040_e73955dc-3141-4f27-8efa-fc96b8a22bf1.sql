@@ -0,0 +1,182 @@
+-- Category routing rules, applied to new complaints
+CREATE TABLE public.complaint_routing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category public.complaint_category NOT NULL UNIQUE,
+  team_name TEXT NOT NULL CHECK (char_length(team_name) > 0 AND char_length(team_name) <= 100),
+  default_assignee_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  round_robin BOOLEAN NOT NULL DEFAULT false,
+  member_ids UUID[] NOT NULL DEFAULT '{}',
+  last_assigned_to UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.complaint_routing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view routing rules"
+  ON public.complaint_routing_rules FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create routing rules"
+  ON public.complaint_routing_rules FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update routing rules"
+  ON public.complaint_routing_rules FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete routing rules"
+  ON public.complaint_routing_rules FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_complaint_routing_rules_updated_at
+  BEFORE UPDATE ON public.complaint_routing_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Routing events are recorded in the history table
+ALTER TABLE public.complaint_status_history
+  DROP CONSTRAINT complaint_status_history_event_type_check;
+
+ALTER TABLE public.complaint_status_history
+  ADD CONSTRAINT complaint_status_history_event_type_check
+  CHECK (event_type IN ('status_change', 'assignment', 'routing'));
+
+-- Log status and assignment changes. Assignments made by routing are
+-- recorded as a routing event instead (app.skip_assignment_log).
+CREATE OR REPLACE FUNCTION public.log_complaint_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Only log if status actually changed
+  IF (TG_OP = 'INSERT') OR (OLD.status IS DISTINCT FROM NEW.status) THEN
+    INSERT INTO public.complaint_status_history (
+      complaint_id,
+      changed_by_user_id,
+      from_status,
+      to_status,
+      note_snapshot
+    ) VALUES (
+      NEW.id,
+      COALESCE(auth.uid(), NEW.student_id),
+      CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END,
+      NEW.status,
+      COALESCE(NULLIF(current_setting('app.status_change_note', true), ''), NEW.admin_note)
+    );
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND OLD.assigned_to IS DISTINCT FROM NEW.assigned_to
+     AND COALESCE(current_setting('app.skip_assignment_log', true), '') <> 'on' THEN
+    INSERT INTO public.complaint_status_history (
+      complaint_id,
+      changed_by_user_id,
+      event_type,
+      from_status,
+      to_status,
+      from_assignee,
+      to_assignee
+    ) VALUES (
+      NEW.id,
+      COALESCE(auth.uid(), NEW.student_id),
+      'assignment',
+      NEW.status,
+      NEW.status,
+      OLD.assigned_to,
+      NEW.assigned_to
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Function to route a new complaint using its category rule
+CREATE OR REPLACE FUNCTION public.route_new_complaint()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _rule public.complaint_routing_rules;
+  _pool UUID[];
+  _position INTEGER;
+  _assignee UUID;
+BEGIN
+  IF NEW.assigned_to IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _rule
+  FROM public.complaint_routing_rules
+  WHERE category = NEW.category AND is_active
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF _rule.round_robin THEN
+    -- Only staff who still hold the admin role take part in the rotation
+    SELECT COALESCE(array_agg(member ORDER BY ord), '{}') INTO _pool
+    FROM unnest(_rule.member_ids) WITH ORDINALITY AS m(member, ord)
+    WHERE public.has_role(member, 'admin');
+
+    IF cardinality(_pool) > 0 THEN
+      _position := COALESCE(array_position(_pool, _rule.last_assigned_to), 0);
+      _assignee := _pool[(_position % cardinality(_pool)) + 1];
+
+      UPDATE public.complaint_routing_rules
+      SET last_assigned_to = _assignee
+      WHERE id = _rule.id;
+    END IF;
+  END IF;
+
+  IF _assignee IS NULL AND public.has_role(_rule.default_assignee_id, 'admin') THEN
+    _assignee := _rule.default_assignee_id;
+  END IF;
+
+  IF _assignee IS NOT NULL THEN
+    PERFORM set_config('app.skip_assignment_log', 'on', true);
+
+    UPDATE public.complaints
+    SET assigned_to = _assignee
+    WHERE id = NEW.id;
+
+    PERFORM set_config('app.skip_assignment_log', '', true);
+  END IF;
+
+  INSERT INTO public.complaint_status_history (
+    complaint_id,
+    changed_by_user_id,
+    event_type,
+    from_status,
+    to_status,
+    to_assignee,
+    note_snapshot
+  ) VALUES (
+    NEW.id,
+    COALESCE(auth.uid(), NEW.student_id),
+    'routing',
+    NEW.status,
+    NEW.status,
+    _assignee,
+    format(
+      'Routed to %s by the %s rule%s',
+      _rule.team_name,
+      _rule.category,
+      CASE WHEN _rule.round_robin AND _assignee IS NOT NULL THEN ' (round-robin)' ELSE '' END
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER route_new_complaint
+  AFTER INSERT ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.route_new_complaint();
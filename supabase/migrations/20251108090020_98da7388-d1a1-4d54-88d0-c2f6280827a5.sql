@@ -0,0 +1,204 @@
+-- Per-category SLA policies
+CREATE TABLE public.complaint_sla_policies (
+  category public.complaint_category PRIMARY KEY,
+  first_response_hours INTEGER NOT NULL DEFAULT 24 CHECK (first_response_hours > 0),
+  resolution_hours INTEGER NOT NULL DEFAULT 168 CHECK (resolution_hours > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.complaint_sla_policies (category)
+SELECT unnest(enum_range(NULL::public.complaint_category));
+
+ALTER TABLE public.complaint_sla_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view SLA policies"
+  ON public.complaint_sla_policies FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update SLA policies"
+  ON public.complaint_sla_policies FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_complaint_sla_policies_updated_at
+  BEFORE UPDATE ON public.complaint_sla_policies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- SLA tracking on complaints
+ALTER TABLE public.complaints
+  ADD COLUMN first_response_due_at TIMESTAMPTZ,
+  ADD COLUMN resolve_due_at TIMESTAMPTZ,
+  ADD COLUMN first_responded_at TIMESTAMPTZ;
+
+CREATE INDEX idx_complaints_first_response_due_at ON public.complaints(first_response_due_at)
+  WHERE first_responded_at IS NULL;
+CREATE INDEX idx_complaints_resolve_due_at ON public.complaints(resolve_due_at);
+
+-- Breaches are kept apart from complaints so recording one does not bump updated_at
+CREATE TABLE public.complaint_sla_breaches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('first_response', 'resolution')),
+  due_at TIMESTAMPTZ NOT NULL,
+  breached_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (complaint_id, kind)
+);
+
+ALTER TABLE public.complaint_sla_breaches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view SLA breaches"
+  ON public.complaint_sla_breaches FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+ALTER TABLE public.complaint_status_history
+  DROP CONSTRAINT complaint_status_history_event_type_check;
+
+ALTER TABLE public.complaint_status_history
+  ADD CONSTRAINT complaint_status_history_event_type_check
+  CHECK (event_type IN ('status_change', 'assignment', 'routing', 'sla_breach'));
+
+-- Function to compute due dates for new complaints
+CREATE OR REPLACE FUNCTION public.set_complaint_sla_due_dates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _policy public.complaint_sla_policies;
+BEGIN
+  SELECT * INTO _policy
+  FROM public.complaint_sla_policies
+  WHERE category = NEW.category;
+
+  NEW.first_response_due_at := NEW.created_at + make_interval(hours => COALESCE(_policy.first_response_hours, 24));
+  NEW.resolve_due_at := NEW.created_at + make_interval(hours => COALESCE(_policy.resolution_hours, 168));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_complaint_sla_due_dates
+  BEFORE INSERT ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.set_complaint_sla_due_dates();
+
+-- First response: the first status change made by staff...
+CREATE OR REPLACE FUNCTION public.track_complaint_first_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.first_responded_at IS NULL
+     AND OLD.status IS DISTINCT FROM NEW.status
+     AND public.has_role(auth.uid(), 'admin') THEN
+    NEW.first_responded_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_complaint_first_response
+  BEFORE UPDATE ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.track_complaint_first_response();
+
+-- ...or the first staff message in the thread
+CREATE OR REPLACE FUNCTION public.track_complaint_first_staff_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.is_staff THEN
+    UPDATE public.complaints
+    SET first_responded_at = NEW.created_at
+    WHERE id = NEW.complaint_id AND first_responded_at IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_complaint_first_staff_message
+  AFTER INSERT ON public.complaint_messages
+  FOR EACH ROW EXECUTE FUNCTION public.track_complaint_first_staff_message();
+
+-- Backfill existing complaints
+UPDATE public.complaints c
+SET first_response_due_at = c.created_at + make_interval(hours => p.first_response_hours),
+    resolve_due_at = c.created_at + make_interval(hours => p.resolution_hours),
+    first_responded_at = COALESCE(
+      (SELECT min(m.created_at) FROM public.complaint_messages m WHERE m.complaint_id = c.id AND m.is_staff),
+      (SELECT min(h.changed_at) FROM public.complaint_status_history h
+        WHERE h.complaint_id = c.id AND h.from_status IS NOT NULL AND h.event_type = 'status_change'
+          AND public.has_role(h.changed_by_user_id, 'admin'))
+    )
+FROM public.complaint_sla_policies p
+WHERE p.category = c.category;
+
+-- Record newly breached SLAs and log them in the history table
+CREATE OR REPLACE FUNCTION public.record_sla_breaches()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  WITH due AS (
+    SELECT c.id, c.status, c.student_id, 'first_response'::text AS kind, c.first_response_due_at AS due_at
+    FROM public.complaints c
+    WHERE c.first_responded_at IS NULL
+      AND c.first_response_due_at < now()
+      AND c.status NOT IN ('resolved', 'rejected', 'closed')
+    UNION ALL
+    SELECT c.id, c.status, c.student_id, 'resolution', c.resolve_due_at
+    FROM public.complaints c
+    WHERE c.resolve_due_at < now()
+      AND c.status NOT IN ('resolved', 'rejected', 'closed')
+  ),
+  inserted AS (
+    INSERT INTO public.complaint_sla_breaches (complaint_id, kind, due_at)
+    SELECT id, kind, due_at FROM due
+    ON CONFLICT (complaint_id, kind) DO NOTHING
+    RETURNING complaint_id, kind, due_at
+  ),
+  logged AS (
+    INSERT INTO public.complaint_status_history (
+      complaint_id,
+      changed_by_user_id,
+      event_type,
+      from_status,
+      to_status,
+      note_snapshot
+    )
+    SELECT
+      i.complaint_id,
+      d.student_id,
+      'sla_breach',
+      d.status,
+      d.status,
+      CASE i.kind
+        WHEN 'first_response' THEN 'First response SLA breached (due ' || to_char(i.due_at, 'YYYY-MM-DD HH24:MI TZ') || ')'
+        ELSE 'Resolution SLA breached (due ' || to_char(i.due_at, 'YYYY-MM-DD HH24:MI TZ') || ')'
+      END
+    FROM inserted i
+    JOIN due d ON d.id = i.complaint_id AND d.kind = i.kind
+    RETURNING 1
+  )
+  SELECT count(*) INTO _count FROM logged;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_sla_breaches() FROM anon, authenticated;
+
+-- Check for breaches every five minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'record-sla-breaches',
+  '*/5 * * * *',
+  $$SELECT public.record_sla_breaches()$$
+);
@@ -0,0 +1,3 @@
+-- Grievance officers may reveal the identity behind anonymous complaints.
+-- Added on its own so the new enum value is committed before use.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'grievance_officer';
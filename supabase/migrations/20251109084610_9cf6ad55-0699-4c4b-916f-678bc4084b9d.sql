@@ -0,0 +1,190 @@
+-- Anonymous complaint submission
+ALTER TABLE public.complaints
+  ADD COLUMN is_anonymous BOOLEAN NOT NULL DEFAULT false;
+
+-- Regular admin access to anonymous complaints goes through the masked views
+-- below; the base tables only expose non-anonymous rows to admins.
+DROP POLICY IF EXISTS "Admins can view all complaints" ON public.complaints;
+CREATE POLICY "Admins can view all complaints"
+  ON public.complaints FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin') AND NOT is_anonymous);
+
+DROP POLICY IF EXISTS "Users can view history of their complaints" ON public.complaint_status_history;
+CREATE POLICY "Users can view history of their complaints"
+  ON public.complaint_status_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.complaints
+      WHERE complaints.id = complaint_status_history.complaint_id
+      AND complaints.student_id = auth.uid()
+    ) OR (
+      public.has_role(auth.uid(), 'admin') AND
+      NOT EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = complaint_status_history.complaint_id
+        AND complaints.is_anonymous
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view all messages" ON public.complaint_messages;
+CREATE POLICY "Admins can view all messages"
+  ON public.complaint_messages FOR SELECT
+  USING (
+    public.has_role(auth.uid(), 'admin') AND
+    NOT EXISTS (
+      SELECT 1 FROM public.complaints
+      WHERE complaints.id = complaint_messages.complaint_id
+      AND complaints.is_anonymous
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view attachments of their complaints" ON public.attachments;
+CREATE POLICY "Users can view attachments of their complaints"
+  ON public.attachments FOR SELECT
+  USING (
+    auth.uid() = owner_user_id OR (
+      public.has_role(auth.uid(), 'admin') AND
+      NOT EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE (complaints.id = attachments.complaint_id OR complaints.attachment_id = attachments.id)
+        AND complaints.is_anonymous
+      )
+    )
+  );
+
+-- Masked views for staff. They run with the owner's privileges, so each one
+-- checks the admin role itself and hides the student behind anonymous rows.
+CREATE VIEW public.admin_complaints WITH (security_barrier = true) AS
+SELECT
+  c.id,
+  CASE WHEN c.is_anonymous THEN NULL ELSE c.student_id END AS student_id,
+  CASE WHEN c.is_anonymous THEN NULL ELSE s.full_name END AS student_full_name,
+  CASE WHEN c.is_anonymous THEN NULL ELSE s.email END AS student_email,
+  c.is_anonymous,
+  c.title,
+  c.category,
+  c.description,
+  c.attachment_id,
+  c.status,
+  c.admin_note,
+  c.assigned_to,
+  a.full_name AS assignee_full_name,
+  c.resolved_at,
+  c.resolution_confirmed_at,
+  c.reopen_count,
+  c.first_response_due_at,
+  c.resolve_due_at,
+  c.first_responded_at,
+  c.created_at,
+  c.updated_at
+FROM public.complaints c
+JOIN public.profiles s ON s.id = c.student_id
+LEFT JOIN public.profiles a ON a.id = c.assigned_to
+WHERE public.has_role(auth.uid(), 'admin');
+
+CREATE VIEW public.admin_complaint_history WITH (security_barrier = true) AS
+SELECT
+  h.id,
+  h.complaint_id,
+  CASE WHEN c.is_anonymous AND h.changed_by_user_id = c.student_id THEN NULL
+       ELSE h.changed_by_user_id END AS changed_by_user_id,
+  h.event_type,
+  h.from_status,
+  h.to_status,
+  h.from_assignee,
+  h.to_assignee,
+  h.note_snapshot,
+  h.changed_at
+FROM public.complaint_status_history h
+JOIN public.complaints c ON c.id = h.complaint_id
+WHERE public.has_role(auth.uid(), 'admin');
+
+CREATE VIEW public.admin_complaint_messages WITH (security_barrier = true) AS
+SELECT
+  m.id,
+  m.complaint_id,
+  CASE WHEN c.is_anonymous AND m.author_user_id = c.student_id THEN NULL
+       ELSE m.author_user_id END AS author_user_id,
+  CASE WHEN c.is_anonymous AND m.author_user_id = c.student_id THEN NULL
+       ELSE p.full_name END AS author_full_name,
+  m.is_staff,
+  m.body,
+  m.created_at
+FROM public.complaint_messages m
+JOIN public.complaints c ON c.id = m.complaint_id
+LEFT JOIN public.profiles p ON p.id = m.author_user_id
+WHERE public.has_role(auth.uid(), 'admin');
+
+CREATE VIEW public.admin_attachments WITH (security_barrier = true) AS
+SELECT
+  att.id,
+  CASE WHEN c.is_anonymous AND att.owner_user_id = c.student_id THEN NULL
+       ELSE att.owner_user_id END AS owner_user_id,
+  COALESCE(att.complaint_id, c.id) AS complaint_id,
+  att.original_filename,
+  att.stored_path,
+  att.mime_type,
+  att.byte_size,
+  att.created_at
+FROM public.attachments att
+LEFT JOIN public.complaints c ON c.id = att.complaint_id OR c.attachment_id = att.id
+WHERE public.has_role(auth.uid(), 'admin');
+
+REVOKE ALL ON public.admin_complaints, public.admin_complaint_history,
+  public.admin_complaint_messages, public.admin_attachments FROM anon;
+GRANT SELECT ON public.admin_complaints, public.admin_complaint_history,
+  public.admin_complaint_messages, public.admin_attachments TO authenticated;
+
+-- Audit log of identity reveals
+CREATE TABLE public.identity_reveal_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  revealed_by_user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (char_length(reason) > 0 AND char_length(reason) <= 1000),
+  revealed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_identity_reveal_log_complaint_id ON public.identity_reveal_log(complaint_id, revealed_at DESC);
+
+ALTER TABLE public.identity_reveal_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Grievance officers can view reveal log"
+  ON public.identity_reveal_log FOR SELECT
+  USING (public.has_role(auth.uid(), 'grievance_officer'));
+
+-- Grievance officer action: reveal who filed an anonymous complaint
+CREATE OR REPLACE FUNCTION public.reveal_complaint_identity(_complaint_id UUID, _reason TEXT)
+RETURNS TABLE (student_id UUID, full_name TEXT, email TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'grievance_officer') THEN
+    RAISE EXCEPTION 'Only grievance officers can reveal complainant identity'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  IF _reason IS NULL OR char_length(trim(_reason)) = 0 OR char_length(_reason) > 1000 THEN
+    RAISE EXCEPTION 'A reason between 1 and 1000 characters is required to reveal identity'
+      USING ERRCODE = 'BR002';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.complaints c WHERE c.id = _complaint_id) THEN
+    RAISE EXCEPTION 'Complaint not found'
+      USING ERRCODE = 'BR005';
+  END IF;
+
+  INSERT INTO public.identity_reveal_log (complaint_id, revealed_by_user_id, reason)
+  VALUES (_complaint_id, auth.uid(), trim(_reason));
+
+  RETURN QUERY
+  SELECT p.id, p.full_name, p.email
+  FROM public.complaints c
+  JOIN public.profiles p ON p.id = c.student_id
+  WHERE c.id = _complaint_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reveal_complaint_identity(UUID, TEXT) FROM anon;
@@ -0,0 +1,114 @@
+-- Multiple attachments per complaint: attachments.complaint_id becomes the
+-- only link, replacing the single complaints.attachment_id column.
+
+-- Move existing single attachments onto the one-to-many relation
+UPDATE public.attachments att
+SET complaint_id = c.id
+FROM public.complaints c
+WHERE c.attachment_id = att.id
+AND att.complaint_id IS NULL;
+
+-- Views and policies that reference attachment_id must go before the column
+DROP VIEW public.admin_complaints;
+DROP VIEW public.admin_attachments;
+
+DROP POLICY IF EXISTS "Users can view attachments of their complaints" ON public.attachments;
+CREATE POLICY "Users can view attachments of their complaints"
+  ON public.attachments FOR SELECT
+  USING (
+    auth.uid() = owner_user_id OR (
+      public.has_role(auth.uid(), 'admin') AND
+      NOT EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = attachments.complaint_id
+        AND complaints.is_anonymous
+      )
+    )
+  );
+
+-- New attachments must belong to a complaint the uploader filed
+DROP POLICY IF EXISTS "Users can insert attachments for their complaints" ON public.attachments;
+CREATE POLICY "Users can insert attachments for their complaints"
+  ON public.attachments FOR INSERT
+  WITH CHECK (
+    auth.uid() = owner_user_id AND
+    EXISTS (
+      SELECT 1 FROM public.complaints
+      WHERE complaints.id = attachments.complaint_id
+      AND complaints.student_id = auth.uid()
+    )
+  );
+
+ALTER TABLE public.complaints DROP COLUMN attachment_id;
+
+CREATE VIEW public.admin_complaints WITH (security_barrier = true) AS
+SELECT
+  c.id,
+  CASE WHEN c.is_anonymous THEN NULL ELSE c.student_id END AS student_id,
+  CASE WHEN c.is_anonymous THEN NULL ELSE s.full_name END AS student_full_name,
+  CASE WHEN c.is_anonymous THEN NULL ELSE s.email END AS student_email,
+  c.is_anonymous,
+  c.title,
+  c.category,
+  c.description,
+  c.status,
+  c.admin_note,
+  c.assigned_to,
+  a.full_name AS assignee_full_name,
+  c.resolved_at,
+  c.resolution_confirmed_at,
+  c.reopen_count,
+  c.first_response_due_at,
+  c.resolve_due_at,
+  c.first_responded_at,
+  c.created_at,
+  c.updated_at
+FROM public.complaints c
+JOIN public.profiles s ON s.id = c.student_id
+LEFT JOIN public.profiles a ON a.id = c.assigned_to
+WHERE public.has_role(auth.uid(), 'admin');
+
+CREATE VIEW public.admin_attachments WITH (security_barrier = true) AS
+SELECT
+  att.id,
+  CASE WHEN c.is_anonymous AND att.owner_user_id = c.student_id THEN NULL
+       ELSE att.owner_user_id END AS owner_user_id,
+  att.complaint_id,
+  att.original_filename,
+  att.stored_path,
+  att.mime_type,
+  att.byte_size,
+  att.created_at
+FROM public.attachments att
+JOIN public.complaints c ON c.id = att.complaint_id
+WHERE public.has_role(auth.uid(), 'admin');
+
+REVOKE ALL ON public.admin_complaints, public.admin_attachments FROM anon;
+GRANT SELECT ON public.admin_complaints, public.admin_attachments TO authenticated;
+
+-- New uploads are stored under <complaint_id>/ instead of <student_id>/, so
+-- storage paths no longer reveal who filed an anonymous complaint. Legacy
+-- files keep their original paths and remain readable by their owner.
+DROP POLICY IF EXISTS "Users can upload their own attachments" ON storage.objects;
+
+CREATE POLICY "Students can upload attachments to their complaints"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'complaint-attachments' AND
+    EXISTS (
+      SELECT 1 FROM public.complaints
+      WHERE complaints.id::text = (storage.foldername(name))[1]
+      AND complaints.student_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Students can view attachments of their complaints"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'complaint-attachments' AND
+    EXISTS (
+      SELECT 1 FROM public.complaints
+      WHERE complaints.id::text = (storage.foldername(name))[1]
+      AND complaints.student_id = auth.uid()
+    )
+  );
@@ -0,0 +1,129 @@
+-- Attachments added after submission by the student or the assigned admin
+
+-- Keep attachment rows in line with the bucket's MIME allow-list. The
+-- baseline's length check already holds the default constraint name.
+ALTER TABLE public.attachments
+  ADD CONSTRAINT attachments_mime_type_allowed
+  CHECK (mime_type IN ('application/pdf', 'image/jpeg', 'image/png', 'image/jpg'));
+
+-- Students see every attachment on their complaints, including staff uploads
+DROP POLICY IF EXISTS "Users can view attachments of their complaints" ON public.attachments;
+CREATE POLICY "Users can view attachments of their complaints"
+  ON public.attachments FOR SELECT
+  USING (
+    auth.uid() = owner_user_id OR
+    EXISTS (
+      SELECT 1 FROM public.complaints
+      WHERE complaints.id = attachments.complaint_id
+      AND complaints.student_id = auth.uid()
+    ) OR (
+      public.has_role(auth.uid(), 'admin') AND
+      NOT EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = attachments.complaint_id
+        AND complaints.is_anonymous
+      )
+    )
+  );
+
+-- Uploads are open to the student who filed the complaint and to the admin
+-- it is assigned to, until the complaint is closed
+CREATE OR REPLACE FUNCTION public.can_attach_to_complaint(_user_id UUID, _complaint_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.complaints c
+    WHERE c.id = _complaint_id
+    AND c.status <> 'closed'
+    AND (
+      c.student_id = _user_id OR
+      (c.assigned_to = _user_id AND public.has_role(_user_id, 'admin'))
+    )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_attach_to_complaint(UUID, UUID) FROM anon;
+
+DROP POLICY IF EXISTS "Users can insert attachments for their complaints" ON public.attachments;
+CREATE POLICY "Users can insert attachments for their complaints"
+  ON public.attachments FOR INSERT
+  WITH CHECK (
+    auth.uid() = owner_user_id AND
+    public.can_attach_to_complaint(auth.uid(), complaint_id)
+  );
+
+DROP POLICY IF EXISTS "Students can upload attachments to their complaints" ON storage.objects;
+CREATE POLICY "Students and assignees can upload complaint attachments"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'complaint-attachments' AND
+    EXISTS (
+      SELECT 1 FROM public.complaints
+      WHERE complaints.id::text = (storage.foldername(name))[1]
+      AND public.can_attach_to_complaint(auth.uid(), complaints.id)
+    )
+  );
+
+-- Expose who uploaded each file to staff, still masking anonymous students
+DROP VIEW public.admin_attachments;
+CREATE VIEW public.admin_attachments WITH (security_barrier = true) AS
+SELECT
+  att.id,
+  CASE WHEN c.is_anonymous AND att.owner_user_id = c.student_id THEN NULL
+       ELSE att.owner_user_id END AS owner_user_id,
+  CASE WHEN c.is_anonymous AND att.owner_user_id = c.student_id THEN NULL
+       ELSE p.full_name END AS uploader_full_name,
+  att.owner_user_id <> c.student_id AS uploaded_by_staff,
+  att.complaint_id,
+  att.original_filename,
+  att.stored_path,
+  att.mime_type,
+  att.byte_size,
+  att.created_at
+FROM public.attachments att
+JOIN public.complaints c ON c.id = att.complaint_id
+LEFT JOIN public.profiles p ON p.id = att.owner_user_id
+WHERE public.has_role(auth.uid(), 'admin');
+
+REVOKE ALL ON public.admin_attachments FROM anon;
+GRANT SELECT ON public.admin_attachments TO authenticated;
+
+-- Attachment uploads appear in the complaint timeline
+ALTER TABLE public.complaint_status_history
+  DROP CONSTRAINT complaint_status_history_event_type_check;
+
+ALTER TABLE public.complaint_status_history
+  ADD CONSTRAINT complaint_status_history_event_type_check
+  CHECK (event_type IN ('status_change', 'assignment', 'routing', 'sla_breach', 'attachment'));
+
+CREATE OR REPLACE FUNCTION public.log_complaint_attachment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.complaint_id IS NOT NULL THEN
+    INSERT INTO public.complaint_status_history (
+      complaint_id,
+      changed_by_user_id,
+      event_type,
+      from_status,
+      to_status,
+      note_snapshot
+    )
+    SELECT c.id, NEW.owner_user_id, 'attachment', c.status, c.status, NEW.original_filename
+    FROM public.complaints c
+    WHERE c.id = NEW.complaint_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_complaint_attachment
+  AFTER INSERT ON public.attachments
+  FOR EACH ROW EXECUTE FUNCTION public.log_complaint_attachment();
@@ -0,0 +1,76 @@
+-- Realtime change feed for complaints
+--
+-- Realtime only delivers rows the subscriber can SELECT, and admins cannot
+-- select anonymous complaints (or their history and messages) from the base
+-- tables. Instead of publishing those tables, every change touches one row
+-- per complaint here. The row carries no personal data, so admins and the
+-- owning student can both subscribe and refetch through their usual queries
+-- and views.
+CREATE TABLE public.complaint_activity (
+  complaint_id UUID PRIMARY KEY REFERENCES public.complaints(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('complaints', 'complaint_status_history', 'complaint_messages', 'attachments')),
+  touched_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.complaint_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view activity of their complaints"
+  ON public.complaint_activity FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.complaints
+      WHERE complaints.id = complaint_activity.complaint_id
+      AND complaints.student_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all complaint activity"
+  ON public.complaint_activity FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.touch_complaint_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _complaint_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'complaints' THEN
+    _complaint_id := NEW.id;
+  ELSE
+    _complaint_id := NEW.complaint_id;
+  END IF;
+
+  IF _complaint_id IS NOT NULL THEN
+    INSERT INTO public.complaint_activity (complaint_id, source, touched_at)
+    VALUES (_complaint_id, TG_TABLE_NAME, now())
+    ON CONFLICT (complaint_id) DO UPDATE
+    SET source = EXCLUDED.source, touched_at = EXCLUDED.touched_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_complaint_activity
+  AFTER INSERT OR UPDATE ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.touch_complaint_activity();
+
+CREATE TRIGGER touch_complaint_activity
+  AFTER INSERT ON public.complaint_status_history
+  FOR EACH ROW EXECUTE FUNCTION public.touch_complaint_activity();
+
+CREATE TRIGGER touch_complaint_activity
+  AFTER INSERT ON public.complaint_messages
+  FOR EACH ROW EXECUTE FUNCTION public.touch_complaint_activity();
+
+CREATE TRIGGER touch_complaint_activity
+  AFTER INSERT ON public.attachments
+  FOR EACH ROW EXECUTE FUNCTION public.touch_complaint_activity();
+
+-- Seed a row for existing complaints
+INSERT INTO public.complaint_activity (complaint_id, source, touched_at)
+SELECT id, 'complaints', updated_at FROM public.complaints;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.complaint_activity;
@@ -0,0 +1,60 @@
+-- Optimistic concurrency for admin status/note edits.
+-- Callers pass the updated_at they loaded; if the complaint changed since,
+-- the update is rejected with BR007 stale_update so the client can merge.
+
+DROP FUNCTION IF EXISTS public.update_complaint_status(UUID, public.complaint_status, TEXT);
+
+CREATE OR REPLACE FUNCTION public.update_complaint_status(
+  _complaint_id UUID,
+  _to_status public.complaint_status,
+  _note TEXT,
+  _expected_updated_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _complaint public.complaints;
+  _trimmed_note TEXT := NULLIF(trim(COALESCE(_note, '')), '');
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can update complaint status'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  IF char_length(_trimmed_note) > 5000 THEN
+    RAISE EXCEPTION 'Note must be at most 5000 characters'
+      USING ERRCODE = '22001';
+  END IF;
+
+  SELECT * INTO _complaint
+  FROM public.complaints
+  WHERE id = _complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found'
+      USING ERRCODE = 'BR005';
+  END IF;
+
+  IF _expected_updated_at IS NOT NULL AND _complaint.updated_at <> _expected_updated_at THEN
+    RAISE EXCEPTION 'Complaint was changed by someone else'
+      USING ERRCODE = 'BR007',
+            DETAIL = 'Current version: ' || _complaint.updated_at::text;
+  END IF;
+
+  IF _complaint.status = 'closed' THEN
+    RAISE EXCEPTION 'Closed complaints cannot be modified'
+      USING ERRCODE = 'BR003';
+  END IF;
+
+  UPDATE public.complaints
+  SET status = _to_status,
+      admin_note = _trimmed_note
+  WHERE id = _complaint_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_complaint_status(UUID, public.complaint_status, TEXT, TIMESTAMPTZ) FROM anon;
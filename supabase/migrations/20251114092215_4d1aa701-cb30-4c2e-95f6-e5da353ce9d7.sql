@@ -0,0 +1,181 @@
+-- In-app notifications for students and admins
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  complaint_id UUID REFERENCES public.complaints(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('complaint_created', 'status_change', 'assignment', 'message')),
+  title TEXT NOT NULL CHECK (char_length(title) <= 200),
+  body TEXT CHECK (char_length(body) <= 500),
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Human-readable status names, matching STATUS_LABELS in the client
+CREATE OR REPLACE FUNCTION public.complaint_status_label(_status public.complaint_status)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _status
+    WHEN 'open' THEN 'Open'
+    WHEN 'triaged' THEN 'Triaged'
+    WHEN 'in_progress' THEN 'In Progress'
+    WHEN 'waiting_on_student' THEN 'Waiting on Student'
+    WHEN 'escalated' THEN 'Escalated'
+    WHEN 'resolved' THEN 'Resolved'
+    WHEN 'rejected' THEN 'Rejected'
+    WHEN 'closed' THEN 'Closed'
+  END;
+$$;
+
+-- Sends a notification to each recipient except the user who caused it
+CREATE OR REPLACE FUNCTION public.notify_users(
+  _user_ids UUID[],
+  _complaint_id UUID,
+  _kind TEXT,
+  _title TEXT,
+  _body TEXT
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  INSERT INTO public.notifications (user_id, complaint_id, kind, title, body)
+  SELECT DISTINCT r.user_id, _complaint_id, _kind, left(_title, 200), left(_body, 500)
+  FROM unnest(_user_ids) AS r(user_id)
+  WHERE r.user_id IS NOT NULL
+  AND r.user_id IS DISTINCT FROM auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_users(UUID[], UUID, TEXT, TEXT, TEXT) FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.admin_user_ids()
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT COALESCE(array_agg(user_id), '{}') FROM public.user_roles WHERE role = 'admin';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_user_ids() FROM anon, authenticated;
+
+-- New complaints: tell every admin
+CREATE OR REPLACE FUNCTION public.notify_complaint_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  PERFORM public.notify_users(
+    public.admin_user_ids(),
+    NEW.id,
+    'complaint_created',
+    'New complaint submitted',
+    NEW.title
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_complaint_created
+  AFTER INSERT ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.notify_complaint_created();
+
+-- Status changes go to the student and the assignee; new assignees are told
+-- the complaint is theirs
+CREATE OR REPLACE FUNCTION public.notify_complaint_updated()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    PERFORM public.notify_users(
+      ARRAY[NEW.student_id, NEW.assigned_to],
+      NEW.id,
+      'status_change',
+      'Status changed to ' || public.complaint_status_label(NEW.status),
+      NEW.title
+    );
+  END IF;
+
+  IF NEW.assigned_to IS NOT NULL AND OLD.assigned_to IS DISTINCT FROM NEW.assigned_to THEN
+    PERFORM public.notify_users(
+      ARRAY[NEW.assigned_to],
+      NEW.id,
+      'assignment',
+      'Complaint assigned to you',
+      NEW.title
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_complaint_updated
+  AFTER UPDATE ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.notify_complaint_updated();
+
+-- Staff replies go to the student; student replies go to the assignee, or to
+-- every admin while the complaint is unassigned
+CREATE OR REPLACE FUNCTION public.notify_complaint_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _complaint public.complaints;
+BEGIN
+  SELECT * INTO _complaint FROM public.complaints WHERE id = NEW.complaint_id;
+
+  IF NEW.is_staff THEN
+    PERFORM public.notify_users(
+      ARRAY[_complaint.student_id],
+      _complaint.id,
+      'message',
+      'New message from staff on "' || left(_complaint.title, 120) || '"',
+      NEW.body
+    );
+  ELSE
+    PERFORM public.notify_users(
+      CASE WHEN _complaint.assigned_to IS NOT NULL
+        THEN ARRAY[_complaint.assigned_to]
+        ELSE public.admin_user_ids()
+      END,
+      _complaint.id,
+      'message',
+      'New message from student on "' || left(_complaint.title, 120) || '"',
+      NEW.body
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_complaint_message
+  AFTER INSERT ON public.complaint_messages
+  FOR EACH ROW EXECUTE FUNCTION public.notify_complaint_message();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
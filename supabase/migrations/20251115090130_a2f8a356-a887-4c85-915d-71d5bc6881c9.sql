@@ -0,0 +1,167 @@
+-- Email notifications: per-user preferences and an outbox drained by the
+-- send-emails edge function
+
+ALTER TABLE public.profiles
+  ADD COLUMN email_on_status_change BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN email_on_new_complaint BOOLEAN NOT NULL DEFAULT true;
+
+CREATE TABLE public.email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  to_user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  to_email TEXT NOT NULL CHECK (char_length(to_email) <= 254),
+  template TEXT NOT NULL CHECK (template IN ('status_change', 'new_complaint')),
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_email_outbox_due ON public.email_outbox(next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the email outbox"
+  ON public.email_outbox FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Status changes: email the student unless they opted out
+CREATE OR REPLACE FUNCTION public.enqueue_status_change_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.event_type <> 'status_change' OR NEW.from_status IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.email_outbox (to_user_id, to_email, template, payload)
+  SELECT
+    p.id,
+    p.email,
+    'status_change',
+    jsonb_build_object(
+      'complaint_id', c.id,
+      'complaint_title', c.title,
+      'recipient_name', p.full_name,
+      'from_status', public.complaint_status_label(NEW.from_status),
+      'to_status', public.complaint_status_label(NEW.to_status),
+      'note', NEW.note_snapshot
+    )
+  FROM public.complaints c
+  JOIN public.profiles p ON p.id = c.student_id
+  WHERE c.id = NEW.complaint_id
+  AND p.is_active
+  AND p.email_on_status_change;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_status_change_email
+  AFTER INSERT ON public.complaint_status_history
+  FOR EACH ROW EXECUTE FUNCTION public.enqueue_status_change_email();
+
+-- New complaints: email the admins who handle the category (the routing
+-- rule's default assignee and members), or every admin if there is no rule.
+-- The student is never named, so anonymous complaints stay anonymous.
+CREATE OR REPLACE FUNCTION public.enqueue_new_complaint_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _rule public.complaint_routing_rules;
+  _recipients UUID[];
+BEGIN
+  SELECT * INTO _rule
+  FROM public.complaint_routing_rules
+  WHERE category = NEW.category AND is_active;
+
+  IF FOUND THEN
+    _recipients := array_remove(_rule.member_ids || _rule.default_assignee_id, NULL);
+  END IF;
+
+  IF _recipients IS NULL OR cardinality(_recipients) = 0 THEN
+    _recipients := public.admin_user_ids();
+  END IF;
+
+  INSERT INTO public.email_outbox (to_user_id, to_email, template, payload)
+  SELECT
+    p.id,
+    p.email,
+    'new_complaint',
+    jsonb_build_object(
+      'complaint_id', NEW.id,
+      'complaint_title', NEW.title,
+      'recipient_name', p.full_name,
+      'category', NEW.category
+    )
+  FROM public.profiles p
+  WHERE p.id = ANY(_recipients)
+  AND public.has_role(p.id, 'admin')
+  AND p.is_active
+  AND p.email_on_new_complaint;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_new_complaint_email
+  AFTER INSERT ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.enqueue_new_complaint_email();
+
+-- Worker API (service role only). Claimed rows are leased for ten minutes so a
+-- crashed worker's batch is picked up again.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(_batch_size INTEGER DEFAULT 20)
+RETURNS SETOF public.email_outbox
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  UPDATE public.email_outbox o
+  SET status = 'sending',
+      attempts = o.attempts + 1,
+      next_attempt_at = now() + interval '10 minutes'
+  WHERE o.id IN (
+    SELECT id FROM public.email_outbox
+    WHERE status IN ('pending', 'sending')
+    AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT _batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+$$;
+
+-- Marks a claimed email sent, or schedules a retry with exponential backoff
+-- (1, 2, 4, 8 minutes) until it fails for good after five attempts
+CREATE OR REPLACE FUNCTION public.complete_email_outbox(_id UUID, _error TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  UPDATE public.email_outbox
+  SET status = CASE
+        WHEN _error IS NULL THEN 'sent'
+        WHEN attempts >= 5 THEN 'failed'
+        ELSE 'pending'
+      END,
+      sent_at = CASE WHEN _error IS NULL THEN now() END,
+      last_error = left(_error, 1000),
+      next_attempt_at = CASE
+        WHEN _error IS NULL THEN next_attempt_at
+        ELSE now() + make_interval(mins => power(2, attempts - 1)::int)
+      END
+  WHERE id = _id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER) FROM anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_email_outbox(UUID, TEXT) FROM anon, authenticated;
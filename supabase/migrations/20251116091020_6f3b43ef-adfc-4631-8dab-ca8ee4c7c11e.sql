@@ -0,0 +1,62 @@
+-- Server-side filtering for the admin complaint list. Sorting and pagination
+-- are applied by PostgREST on top of the result (order + range headers), so
+-- this function only decides which complaints match.
+--
+-- _filters keys (all optional):
+--   search    text matched against title, description and visible student name/email
+--   status    complaint_status
+--   category  complaint_category
+--   assignee  'mine' | 'unassigned' | <admin uuid>
+--   overdue   boolean; only complaints whose current SLA target is breached
+CREATE OR REPLACE FUNCTION public.search_admin_complaints(_filters JSONB DEFAULT '{}'::jsonb)
+RETURNS SETOF public.admin_complaints
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _search TEXT := NULLIF(trim(_filters->>'search'), '');
+  _pattern TEXT;
+  _assignee TEXT := NULLIF(_filters->>'assignee', '');
+BEGIN
+  IF _search IS NOT NULL THEN
+    _pattern := '%' || replace(replace(replace(_search, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  RETURN QUERY
+  SELECT c.*
+  FROM public.admin_complaints c
+  WHERE (
+    _pattern IS NULL OR
+    c.title ILIKE _pattern OR
+    c.description ILIKE _pattern OR
+    c.student_full_name ILIKE _pattern OR
+    c.student_email ILIKE _pattern
+  )
+  AND (NULLIF(_filters->>'status', '') IS NULL OR c.status = (_filters->>'status')::public.complaint_status)
+  AND (NULLIF(_filters->>'category', '') IS NULL OR c.category = (_filters->>'category')::public.complaint_category)
+  AND (
+    _assignee IS NULL OR
+    (_assignee = 'mine' AND c.assigned_to = auth.uid()) OR
+    (_assignee = 'unassigned' AND c.assigned_to IS NULL) OR
+    (_assignee NOT IN ('mine', 'unassigned') AND c.assigned_to::text = _assignee)
+  )
+  AND (
+    NOT COALESCE((_filters->>'overdue')::boolean, false) OR (
+      c.status NOT IN ('resolved', 'rejected', 'closed') AND
+      CASE
+        WHEN c.first_responded_at IS NULL AND c.first_response_due_at IS NOT NULL
+          THEN c.first_response_due_at < now()
+        ELSE c.resolve_due_at < now()
+      END
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_admin_complaints(JSONB) FROM anon;
+
+-- Indexes for the default sort orders and common filters
+CREATE INDEX IF NOT EXISTS idx_complaints_created_at ON public.complaints(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_complaints_updated_at ON public.complaints(updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_complaints_category ON public.complaints(category);
@@ -0,0 +1,131 @@
+-- Full-text search for the admin complaint list: a weighted tsvector over the
+-- title, description and staff note, and ranked, highlighted results from
+-- search_admin_complaints
+
+ALTER TABLE public.complaints
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(admin_note, '')), 'C')
+  ) STORED;
+
+CREATE INDEX idx_complaints_search_vector ON public.complaints USING GIN (search_vector);
+
+-- Turns free text into a prefix query, so "wifi hub 3" matches
+-- "WiFi in Hub 3 keeps dropping". Returns NULL when there is nothing to search.
+CREATE OR REPLACE FUNCTION public.complaint_search_query(_search TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT to_tsquery('english'::regconfig, string_agg(word || ':*', ' & '))
+  FROM unnest(regexp_split_to_array(lower(coalesce(_search, '')), '[^[:alnum:]]+')) AS word
+  WHERE word <> '';
+$$;
+
+-- The result now carries a relevance rank and highlighted fragments, so the
+-- return type changes and the function has to be recreated
+DROP FUNCTION public.search_admin_complaints(JSONB);
+
+-- SECURITY DEFINER only to read complaints.search_vector, which the masked
+-- view does not expose; rows still come from admin_complaints, which returns
+-- nothing unless the caller is an admin.
+--
+-- Matches are marked with <mark>…</mark> in search_title and search_snippet.
+-- Clients must split on the markers rather than render them as HTML.
+CREATE OR REPLACE FUNCTION public.search_admin_complaints(_filters JSONB DEFAULT '{}'::jsonb)
+RETURNS TABLE (
+  id UUID,
+  student_id UUID,
+  student_full_name TEXT,
+  student_email TEXT,
+  is_anonymous BOOLEAN,
+  title TEXT,
+  category public.complaint_category,
+  description TEXT,
+  status public.complaint_status,
+  admin_note TEXT,
+  assigned_to UUID,
+  assignee_full_name TEXT,
+  resolved_at TIMESTAMPTZ,
+  resolution_confirmed_at TIMESTAMPTZ,
+  reopen_count INTEGER,
+  first_response_due_at TIMESTAMPTZ,
+  resolve_due_at TIMESTAMPTZ,
+  first_responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  search_rank REAL,
+  search_title TEXT,
+  search_snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  WITH params AS (
+    SELECT
+      public.complaint_search_query(_filters->>'search') AS query,
+      '%' || replace(replace(replace(trim(_filters->>'search'), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern,
+      NULLIF(_filters->>'assignee', '') AS assignee
+  )
+  SELECT
+    c.id,
+    c.student_id,
+    c.student_full_name,
+    c.student_email,
+    c.is_anonymous,
+    c.title,
+    c.category,
+    c.description,
+    c.status,
+    c.admin_note,
+    c.assigned_to,
+    c.assignee_full_name,
+    c.resolved_at,
+    c.resolution_confirmed_at,
+    c.reopen_count,
+    c.first_response_due_at,
+    c.resolve_due_at,
+    c.first_responded_at,
+    c.created_at,
+    c.updated_at,
+    CASE WHEN p.query IS NULL THEN 0 ELSE ts_rank_cd(k.search_vector, p.query) END,
+    CASE WHEN p.query IS NULL THEN NULL
+      ELSE ts_headline('english'::regconfig, c.title, p.query,
+        'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') END,
+    CASE WHEN p.query IS NULL THEN NULL
+      ELSE ts_headline('english'::regconfig, concat_ws(E'\n', c.description, c.admin_note), p.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "') END
+  FROM public.admin_complaints c
+  JOIN public.complaints k ON k.id = c.id
+  CROSS JOIN params p
+  WHERE (
+    NULLIF(trim(_filters->>'search'), '') IS NULL OR
+    k.search_vector @@ p.query OR
+    c.student_full_name ILIKE p.pattern OR
+    c.student_email ILIKE p.pattern
+  )
+  AND (NULLIF(_filters->>'status', '') IS NULL OR c.status = (_filters->>'status')::public.complaint_status)
+  AND (NULLIF(_filters->>'category', '') IS NULL OR c.category = (_filters->>'category')::public.complaint_category)
+  AND (
+    p.assignee IS NULL OR
+    (p.assignee = 'mine' AND c.assigned_to = auth.uid()) OR
+    (p.assignee = 'unassigned' AND c.assigned_to IS NULL) OR
+    (p.assignee NOT IN ('mine', 'unassigned') AND c.assigned_to::text = p.assignee)
+  )
+  AND (
+    NOT COALESCE((_filters->>'overdue')::boolean, false) OR (
+      c.status NOT IN ('resolved', 'rejected', 'closed') AND
+      CASE
+        WHEN c.first_responded_at IS NULL AND c.first_response_due_at IS NOT NULL
+          THEN c.first_response_due_at < now()
+        ELSE c.resolve_due_at < now()
+      END
+    )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_admin_complaints(JSONB) FROM anon;
@@ -0,0 +1,96 @@
+-- Saved views for the admin complaint list. A view stores the list's query
+-- string parameters (filters, search and sort). Views can be shared with all
+-- admins; each admin pins the views they want as tabs and may pick one as
+-- their default landing view.
+
+CREATE TABLE public.saved_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) > 0 AND char_length(name) <= 60),
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(filters) = 'object'),
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_saved_views_owner ON public.saved_views(owner_id);
+CREATE INDEX idx_saved_views_shared ON public.saved_views(is_shared) WHERE is_shared;
+
+CREATE TRIGGER update_saved_views_updated_at
+  BEFORE UPDATE ON public.saved_views
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view their own and shared views"
+  ON public.saved_views FOR SELECT
+  USING (
+    public.has_role(auth.uid(), 'admin') AND
+    (owner_id = auth.uid() OR is_shared)
+  );
+
+CREATE POLICY "Admins can create their own views"
+  ON public.saved_views FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND owner_id = auth.uid());
+
+CREATE POLICY "Admins can update their own views"
+  ON public.saved_views FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin') AND owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Admins can delete their own views"
+  ON public.saved_views FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin') AND owner_id = auth.uid());
+
+-- Per-admin pins and default, kept apart from the view so that shared views
+-- can be pinned by anyone who sees them
+CREATE TABLE public.saved_view_preferences (
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  view_id UUID NOT NULL REFERENCES public.saved_views(id) ON DELETE CASCADE,
+  pinned BOOLEAN NOT NULL DEFAULT false,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, view_id)
+);
+
+-- At most one default view per admin
+CREATE UNIQUE INDEX idx_saved_view_preferences_default
+  ON public.saved_view_preferences(user_id) WHERE is_default;
+
+ALTER TABLE public.saved_view_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view their own view preferences"
+  ON public.saved_view_preferences FOR SELECT
+  USING (user_id = auth.uid());
+
+-- The EXISTS goes through saved_views RLS, so only visible views can be pinned
+CREATE POLICY "Admins can manage their own view preferences"
+  ON public.saved_view_preferences FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid() AND
+    public.has_role(auth.uid(), 'admin') AND
+    EXISTS (SELECT 1 FROM public.saved_views v WHERE v.id = view_id)
+  );
+
+-- Makes a view the caller's default landing view (no view clears it). The old
+-- default is cleared first so the unique default index is never violated.
+CREATE OR REPLACE FUNCTION public.set_default_saved_view(_view_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  UPDATE public.saved_view_preferences
+  SET is_default = false
+  WHERE user_id = auth.uid() AND is_default AND view_id IS DISTINCT FROM _view_id;
+
+  IF _view_id IS NOT NULL THEN
+    INSERT INTO public.saved_view_preferences (user_id, view_id, is_default)
+    VALUES (auth.uid(), _view_id, true)
+    ON CONFLICT (user_id, view_id) DO UPDATE SET is_default = true;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_default_saved_view(UUID) FROM anon;
@@ -0,0 +1,128 @@
+-- More admin list filters: a created/updated date range, a single student,
+-- complaints with no update for N days, and complaints with attachments.
+--
+-- New _filters keys (all optional):
+--   date_field      'created' (default) | 'updated'
+--   date_from       inclusive lower bound (timestamptz)
+--   date_to         exclusive upper bound (timestamptz)
+--   student         student profile id; anonymous complaints never match
+--   stale_days      only complaints last updated more than this many days ago
+--   has_attachment  boolean
+
+-- Same as before apart from the new conditions. Attachments are read as the
+-- definer, like complaints.search_vector; rows still come from
+-- admin_complaints, which returns nothing unless the caller is an admin.
+CREATE OR REPLACE FUNCTION public.search_admin_complaints(_filters JSONB DEFAULT '{}'::jsonb)
+RETURNS TABLE (
+  id UUID,
+  student_id UUID,
+  student_full_name TEXT,
+  student_email TEXT,
+  is_anonymous BOOLEAN,
+  title TEXT,
+  category public.complaint_category,
+  description TEXT,
+  status public.complaint_status,
+  admin_note TEXT,
+  assigned_to UUID,
+  assignee_full_name TEXT,
+  resolved_at TIMESTAMPTZ,
+  resolution_confirmed_at TIMESTAMPTZ,
+  reopen_count INTEGER,
+  first_response_due_at TIMESTAMPTZ,
+  resolve_due_at TIMESTAMPTZ,
+  first_responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  search_rank REAL,
+  search_title TEXT,
+  search_snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  WITH params AS (
+    SELECT
+      public.complaint_search_query(_filters->>'search') AS query,
+      '%' || replace(replace(replace(trim(_filters->>'search'), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern,
+      NULLIF(_filters->>'assignee', '') AS assignee
+  )
+  SELECT
+    c.id,
+    c.student_id,
+    c.student_full_name,
+    c.student_email,
+    c.is_anonymous,
+    c.title,
+    c.category,
+    c.description,
+    c.status,
+    c.admin_note,
+    c.assigned_to,
+    c.assignee_full_name,
+    c.resolved_at,
+    c.resolution_confirmed_at,
+    c.reopen_count,
+    c.first_response_due_at,
+    c.resolve_due_at,
+    c.first_responded_at,
+    c.created_at,
+    c.updated_at,
+    CASE WHEN p.query IS NULL THEN 0 ELSE ts_rank_cd(k.search_vector, p.query) END,
+    CASE WHEN p.query IS NULL THEN NULL
+      ELSE ts_headline('english'::regconfig, c.title, p.query,
+        'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') END,
+    CASE WHEN p.query IS NULL THEN NULL
+      ELSE ts_headline('english'::regconfig, concat_ws(E'\n', c.description, c.admin_note), p.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "') END
+  FROM public.admin_complaints c
+  JOIN public.complaints k ON k.id = c.id
+  CROSS JOIN params p
+  WHERE (
+    NULLIF(trim(_filters->>'search'), '') IS NULL OR
+    k.search_vector @@ p.query OR
+    c.student_full_name ILIKE p.pattern OR
+    c.student_email ILIKE p.pattern
+  )
+  AND (NULLIF(_filters->>'status', '') IS NULL OR c.status = (_filters->>'status')::public.complaint_status)
+  AND (NULLIF(_filters->>'category', '') IS NULL OR c.category = (_filters->>'category')::public.complaint_category)
+  AND (
+    p.assignee IS NULL OR
+    (p.assignee = 'mine' AND c.assigned_to = auth.uid()) OR
+    (p.assignee = 'unassigned' AND c.assigned_to IS NULL) OR
+    (p.assignee NOT IN ('mine', 'unassigned') AND c.assigned_to::text = p.assignee)
+  )
+  AND (
+    NULLIF(_filters->>'date_from', '') IS NULL OR
+    CASE WHEN _filters->>'date_field' = 'updated' THEN c.updated_at ELSE c.created_at END
+      >= (_filters->>'date_from')::timestamptz
+  )
+  AND (
+    NULLIF(_filters->>'date_to', '') IS NULL OR
+    CASE WHEN _filters->>'date_field' = 'updated' THEN c.updated_at ELSE c.created_at END
+      < (_filters->>'date_to')::timestamptz
+  )
+  AND (NULLIF(_filters->>'student', '') IS NULL OR c.student_id = (_filters->>'student')::uuid)
+  AND (
+    NULLIF(_filters->>'stale_days', '') IS NULL OR
+    c.updated_at < now() - make_interval(days => (_filters->>'stale_days')::int)
+  )
+  AND (
+    NOT COALESCE((_filters->>'has_attachment')::boolean, false) OR
+    EXISTS (SELECT 1 FROM public.attachments a WHERE a.complaint_id = c.id)
+  )
+  AND (
+    NOT COALESCE((_filters->>'overdue')::boolean, false) OR (
+      c.status NOT IN ('resolved', 'rejected', 'closed') AND
+      CASE
+        WHEN c.first_responded_at IS NULL AND c.first_response_due_at IS NOT NULL
+          THEN c.first_response_due_at < now()
+        ELSE c.resolve_due_at < now()
+      END
+    )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_admin_complaints(JSONB) FROM anon;
@@ -0,0 +1,171 @@
+-- Bulk actions for the admin complaint list: change status, assign and tag
+-- many complaints in one call. Each complaint is processed on its own so one
+-- failure (e.g. a disallowed transition) does not undo the rest, and every
+-- change writes its own complaint_status_history row.
+
+-- Staff-only labels such as "duplicate" or "hostel". Kept out of the
+-- complaints table so students never see them.
+CREATE TABLE public.complaint_tags (
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  tag TEXT NOT NULL CHECK (tag = lower(trim(tag)) AND char_length(tag) BETWEEN 1 AND 30),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (complaint_id, tag)
+);
+
+CREATE INDEX idx_complaint_tags_tag ON public.complaint_tags(tag);
+
+ALTER TABLE public.complaint_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view complaint tags"
+  ON public.complaint_tags FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can remove complaint tags"
+  ON public.complaint_tags FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+ALTER TABLE public.complaint_status_history
+  DROP CONSTRAINT complaint_status_history_event_type_check;
+
+ALTER TABLE public.complaint_status_history
+  ADD CONSTRAINT complaint_status_history_event_type_check
+  CHECK (event_type IN ('status_change', 'assignment', 'routing', 'sla_breach', 'attachment', 'tag'));
+
+-- Tag events name the tag, so students do not get them in their history
+DROP POLICY IF EXISTS "Users can view history of their complaints" ON public.complaint_status_history;
+CREATE POLICY "Users can view history of their complaints"
+  ON public.complaint_status_history FOR SELECT
+  USING (
+    (
+      event_type <> 'tag' AND
+      EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = complaint_status_history.complaint_id
+        AND complaints.student_id = auth.uid()
+      )
+    ) OR (
+      public.has_role(auth.uid(), 'admin') AND
+      NOT EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = complaint_status_history.complaint_id
+        AND complaints.is_anonymous
+      )
+    )
+  );
+
+-- _action is 'status', 'assign' or 'tag'. Returns one row per requested
+-- complaint; failed rows carry the SQLSTATE (BR001–BR007) and message.
+CREATE OR REPLACE FUNCTION public.bulk_update_complaints(
+  _complaint_ids UUID[],
+  _action TEXT,
+  _to_status public.complaint_status DEFAULT NULL,
+  _assignee_id UUID DEFAULT NULL,
+  _tag TEXT DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS TABLE (complaint_id UUID, succeeded BOOLEAN, error_code TEXT, error_message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _id UUID;
+  _complaint public.complaints;
+  _trimmed_note TEXT := NULLIF(trim(COALESCE(_note, '')), '');
+  _clean_tag TEXT := lower(trim(COALESCE(_tag, '')));
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can update complaints'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  IF cardinality(_complaint_ids) > 500 THEN
+    RAISE EXCEPTION 'At most 500 complaints can be updated at once'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _action NOT IN ('status', 'assign', 'tag') THEN
+    RAISE EXCEPTION 'Unknown bulk action %', _action
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _action = 'status' AND _to_status IS NULL THEN
+    RAISE EXCEPTION 'A target status is required'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _action = 'assign' AND _assignee_id IS NOT NULL AND NOT public.has_role(_assignee_id, 'admin') THEN
+    RAISE EXCEPTION 'Complaints can only be assigned to staff members'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  IF _action = 'tag' AND char_length(_clean_tag) NOT BETWEEN 1 AND 30 THEN
+    RAISE EXCEPTION 'Tags must be between 1 and 30 characters'
+      USING ERRCODE = '22001';
+  END IF;
+
+  IF char_length(_trimmed_note) > 5000 THEN
+    RAISE EXCEPTION 'Note must be at most 5000 characters'
+      USING ERRCODE = '22001';
+  END IF;
+
+  -- The note goes into each history row without replacing the complaints' own notes
+  PERFORM set_config('app.status_change_note', COALESCE(_trimmed_note, ''), true);
+
+  FOREACH _id IN ARRAY COALESCE((SELECT array_agg(DISTINCT i) FROM unnest(_complaint_ids) AS i), '{}') LOOP
+    complaint_id := _id;
+    succeeded := true;
+    error_code := NULL;
+    error_message := NULL;
+
+    BEGIN
+      SELECT * INTO _complaint
+      FROM public.complaints c
+      WHERE c.id = _id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Complaint not found'
+          USING ERRCODE = 'BR005';
+      END IF;
+
+      IF _complaint.status = 'closed' AND _action <> 'tag' THEN
+        RAISE EXCEPTION 'Closed complaints cannot be modified'
+          USING ERRCODE = 'BR003';
+      END IF;
+
+      IF _action = 'status' AND _complaint.status <> _to_status THEN
+        UPDATE public.complaints SET status = _to_status WHERE id = _id;
+      ELSIF _action = 'assign' AND _complaint.assigned_to IS DISTINCT FROM _assignee_id THEN
+        UPDATE public.complaints SET assigned_to = _assignee_id WHERE id = _id;
+      ELSIF _action = 'tag' THEN
+        INSERT INTO public.complaint_tags (complaint_id, tag, created_by)
+        VALUES (_id, _clean_tag, auth.uid())
+        ON CONFLICT DO NOTHING;
+
+        IF FOUND THEN
+          INSERT INTO public.complaint_status_history (
+            complaint_id,
+            changed_by_user_id,
+            event_type,
+            from_status,
+            to_status,
+            note_snapshot
+          ) VALUES (_id, auth.uid(), 'tag', _complaint.status, _complaint.status, _clean_tag);
+        END IF;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      succeeded := false;
+      error_code := SQLSTATE;
+      error_message := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+
+  PERFORM set_config('app.status_change_note', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.bulk_update_complaints(UUID[], TEXT, public.complaint_status, UUID, TEXT, TEXT) FROM anon;
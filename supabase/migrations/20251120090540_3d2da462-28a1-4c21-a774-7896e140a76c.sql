@@ -0,0 +1,199 @@
+-- Admin analytics: weekly volume by category, open backlog over time,
+-- response and resolution times, and per-admin throughput. Times are taken
+-- from complaint_status_history so they reflect what actually happened rather
+-- than the SLA columns. Weeks start on Monday in the caller's time zone.
+
+-- Complaints submitted per week and category between _from and _to
+CREATE OR REPLACE FUNCTION public.complaint_weekly_volume(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (week_start DATE, category public.complaint_category, complaint_count BIGINT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view analytics'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    date_trunc('week', c.created_at AT TIME ZONE _time_zone)::date,
+    c.category,
+    count(*)
+  FROM public.complaints c
+  WHERE c.created_at >= _from AND c.created_at < _to
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+END;
+$$;
+
+-- Complaints still open (not resolved, rejected or closed) at the end of each
+-- week, replaying status changes up to that moment
+CREATE OR REPLACE FUNCTION public.complaint_weekly_backlog(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (week_start DATE, open_count BIGINT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view analytics'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  RETURN QUERY
+  WITH weeks AS (
+    SELECT
+      w::date AS week_start,
+      least((w + interval '7 days') AT TIME ZONE _time_zone, _to, now()) AS week_end
+    FROM generate_series(
+      date_trunc('week', _from AT TIME ZONE _time_zone),
+      _to AT TIME ZONE _time_zone,
+      interval '7 days'
+    ) AS w
+  )
+  SELECT
+    weeks.week_start,
+    count(c.id)
+  FROM weeks
+  LEFT JOIN public.complaints c
+    ON c.created_at < weeks.week_end
+    AND COALESCE((
+      SELECT h.to_status
+      FROM public.complaint_status_history h
+      WHERE h.complaint_id = c.id
+        AND h.event_type = 'status_change'
+        AND h.changed_at < weeks.week_end
+      ORDER BY h.changed_at DESC
+      LIMIT 1
+    ), 'open') NOT IN ('resolved', 'rejected', 'closed')
+  GROUP BY weeks.week_start
+  ORDER BY weeks.week_start;
+END;
+$$;
+
+-- Median and p90 hours to first staff response and to resolution for
+-- complaints submitted in the range, per category plus an overall row
+-- (category NULL). Complaints still waiting are counted but not timed.
+CREATE OR REPLACE FUNCTION public.complaint_response_times(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  category public.complaint_category,
+  complaint_count BIGINT,
+  responded_count BIGINT,
+  resolved_count BIGINT,
+  first_response_median_hours NUMERIC,
+  first_response_p90_hours NUMERIC,
+  resolve_median_hours NUMERIC,
+  resolve_p90_hours NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view analytics'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  RETURN QUERY
+  WITH timings AS (
+    SELECT
+      c.category,
+      -- Same rule as the first-response SLA: the first status change made by staff
+      extract(epoch FROM (
+        SELECT min(h.changed_at)
+        FROM public.complaint_status_history h
+        WHERE h.complaint_id = c.id
+          AND h.event_type = 'status_change'
+          AND h.from_status IS NOT NULL
+          AND public.has_role(h.changed_by_user_id, 'admin')
+      ) - c.created_at) / 3600 AS response_hours,
+      extract(epoch FROM (
+        SELECT min(h.changed_at)
+        FROM public.complaint_status_history h
+        WHERE h.complaint_id = c.id
+          AND h.event_type = 'status_change'
+          AND h.to_status = 'resolved'
+      ) - c.created_at) / 3600 AS resolve_hours
+    FROM public.complaints c
+    WHERE c.created_at >= _from AND c.created_at < _to
+  )
+  SELECT
+    t.category,
+    count(*),
+    count(t.response_hours),
+    count(t.resolve_hours),
+    round((percentile_cont(0.5) WITHIN GROUP (ORDER BY t.response_hours))::numeric, 1),
+    round((percentile_cont(0.9) WITHIN GROUP (ORDER BY t.response_hours))::numeric, 1),
+    round((percentile_cont(0.5) WITHIN GROUP (ORDER BY t.resolve_hours))::numeric, 1),
+    round((percentile_cont(0.9) WITHIN GROUP (ORDER BY t.resolve_hours))::numeric, 1)
+  FROM timings t
+  GROUP BY GROUPING SETS ((t.category), ())
+  ORDER BY t.category NULLS FIRST;
+END;
+$$;
+
+-- What each staff member did in the range. System events (routing, SLA
+-- breaches) are not attributed to anyone.
+CREATE OR REPLACE FUNCTION public.complaint_admin_throughput(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  admin_id UUID,
+  full_name TEXT,
+  complaints_handled BIGINT,
+  status_changes BIGINT,
+  resolved_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view analytics'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.full_name,
+    count(DISTINCT h.complaint_id),
+    count(*) FILTER (WHERE h.event_type = 'status_change'),
+    count(DISTINCT h.complaint_id) FILTER (WHERE h.event_type = 'status_change' AND h.to_status = 'resolved')
+  FROM public.complaint_status_history h
+  JOIN public.profiles p ON p.id = h.changed_by_user_id
+  WHERE h.changed_at >= _from AND h.changed_at < _to
+    AND h.event_type IN ('status_change', 'assignment', 'tag')
+    AND public.has_role(h.changed_by_user_id, 'admin')
+  GROUP BY p.id, p.full_name
+  ORDER BY 5 DESC, 3 DESC, p.full_name;
+END;
+$$;
+
+CREATE INDEX idx_history_changed_at
+  ON public.complaint_status_history(changed_at);
+
+REVOKE EXECUTE ON FUNCTION public.complaint_weekly_volume(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.complaint_weekly_backlog(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.complaint_response_times(TIMESTAMPTZ, TIMESTAMPTZ) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.complaint_admin_throughput(TIMESTAMPTZ, TIMESTAMPTZ) FROM anon;
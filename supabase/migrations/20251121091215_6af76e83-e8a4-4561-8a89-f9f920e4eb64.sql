@@ -0,0 +1,43 @@
+-- Time spent in each status, replayed from complaint_status_history, for the
+-- complaint export. Durations carry no author or note, so anonymous
+-- complaints are included even though admins cannot read their history.
+CREATE OR REPLACE FUNCTION public.complaint_status_durations(_complaint_ids UUID[])
+RETURNS TABLE (complaint_id UUID, status public.complaint_status, hours NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can export complaints'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  IF cardinality(_complaint_ids) > 1000 THEN
+    RAISE EXCEPTION 'At most 1000 complaints can be requested at once'
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH changes AS (
+    SELECT
+      h.complaint_id,
+      h.to_status,
+      h.changed_at,
+      -- The current status runs until now
+      lead(h.changed_at, 1, now()) OVER (PARTITION BY h.complaint_id ORDER BY h.changed_at, h.id) AS left_at
+    FROM public.complaint_status_history h
+    WHERE h.complaint_id = ANY(_complaint_ids)
+      AND h.event_type = 'status_change'
+  )
+  SELECT
+    changes.complaint_id,
+    changes.to_status,
+    round((sum(extract(epoch FROM changes.left_at - changes.changed_at)) / 3600)::numeric, 1)
+  FROM changes
+  GROUP BY changes.complaint_id, changes.to_status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complaint_status_durations(UUID[]) FROM anon;
@@ -0,0 +1,314 @@
+-- User and role management for admins: list accounts, grant or revoke the
+-- admin and grievance officer roles, deactivate accounts and invite staff.
+-- Every change goes through the functions below and is written to
+-- user_audit_log.
+
+CREATE TABLE public.user_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  target_user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- Kept for invitations sent before the account exists
+  target_email TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('grant_role', 'revoke_role', 'deactivate', 'reactivate', 'invite')),
+  role public.app_role,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_user_audit_log_created_at ON public.user_audit_log(created_at DESC);
+CREATE INDEX idx_user_audit_log_target_user_id ON public.user_audit_log(target_user_id);
+
+ALTER TABLE public.user_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the user audit log"
+  ON public.user_audit_log FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Staff invited before they have an account; the role is granted when they sign up
+CREATE TABLE public.staff_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL CHECK (email = lower(trim(email)) AND char_length(email) BETWEEN 3 AND 254),
+  full_name TEXT NOT NULL CHECK (char_length(full_name) BETWEEN 1 AND 100),
+  role public.app_role NOT NULL CHECK (role <> 'student'),
+  invited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  accepted_at TIMESTAMPTZ,
+  UNIQUE (email, role)
+);
+
+ALTER TABLE public.staff_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view staff invitations"
+  ON public.staff_invitations FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- profiles.role mirrors the highest role for older code paths
+CREATE OR REPLACE FUNCTION public.sync_profile_role(_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  UPDATE public.profiles
+  SET role = CASE WHEN public.has_role(_user_id, 'admin') THEN 'admin'::public.app_role ELSE 'student'::public.app_role END
+  WHERE id = _user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_profile_role(UUID) FROM anon, authenticated;
+
+-- Roles are no longer taken from sign-up metadata, which the client controls;
+-- new accounts are students unless an admin invited them
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, full_name, email, role)
+  VALUES (
+    new.id,
+    COALESCE(new.raw_user_meta_data->>'full_name', 'User'),
+    new.email,
+    'student'
+  );
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (new.id, 'student');
+
+  RETURN new;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_staff_invitations()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  INSERT INTO public.user_roles (user_id, role)
+  SELECT NEW.id, i.role
+  FROM public.staff_invitations i
+  WHERE i.email = lower(NEW.email) AND i.accepted_at IS NULL
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  IF FOUND THEN
+    UPDATE public.staff_invitations
+    SET accepted_at = now()
+    WHERE email = lower(NEW.email) AND accepted_at IS NULL;
+
+    PERFORM public.sync_profile_role(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER accept_staff_invitations
+  AFTER INSERT ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.accept_staff_invitations();
+
+-- Accounts with their roles and activity. Complaint counts leave out
+-- anonymous complaints so the list cannot hint at who filed them.
+CREATE OR REPLACE FUNCTION public.list_users(_search TEXT DEFAULT NULL, _role public.app_role DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT,
+  email TEXT,
+  roles public.app_role[],
+  is_active BOOLEAN,
+  created_at TIMESTAMPTZ,
+  last_sign_in_at TIMESTAMPTZ,
+  complaint_count BIGINT,
+  assigned_open_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage users'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.full_name,
+    p.email,
+    COALESCE((SELECT array_agg(r.role ORDER BY r.role) FROM public.user_roles r WHERE r.user_id = p.id), '{}'),
+    p.is_active,
+    p.created_at,
+    u.last_sign_in_at,
+    (SELECT count(*) FROM public.complaints c WHERE c.student_id = p.id AND NOT c.is_anonymous),
+    (SELECT count(*) FROM public.complaints c
+      WHERE c.assigned_to = p.id AND c.status NOT IN ('resolved', 'rejected', 'closed'))
+  FROM public.profiles p
+  LEFT JOIN auth.users u ON u.id = p.id
+  WHERE (
+      NULLIF(trim(_search), '') IS NULL
+      OR p.full_name ILIKE '%' || trim(_search) || '%'
+      OR p.email ILIKE '%' || trim(_search) || '%'
+    )
+    AND (_role IS NULL OR EXISTS (
+      SELECT 1 FROM public.user_roles r WHERE r.user_id = p.id AND r.role = _role
+    ));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_role(_user_id UUID, _role public.app_role, _granted BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _email TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage users'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  IF _role = 'student' THEN
+    RAISE EXCEPTION 'The student role cannot be changed'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT email INTO _email FROM public.profiles WHERE id = _user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF public.has_role(_user_id, _role) = _granted THEN
+    RETURN;
+  END IF;
+
+  IF NOT _granted AND _role = 'admin' THEN
+    IF _user_id = auth.uid() THEN
+      RAISE EXCEPTION 'You cannot remove your own admin role'
+        USING ERRCODE = 'BR004';
+    END IF;
+
+    -- Serialise demotions so two admins cannot remove each other at once and
+    -- leave nobody able to manage users
+    PERFORM 1 FROM public.user_roles WHERE role = 'admin' FOR UPDATE;
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'Only admins can manage users'
+        USING ERRCODE = 'BR004';
+    END IF;
+  END IF;
+
+  IF _granted THEN
+    INSERT INTO public.user_roles (user_id, role) VALUES (_user_id, _role);
+  ELSE
+    DELETE FROM public.user_roles WHERE user_id = _user_id AND role = _role;
+  END IF;
+
+  PERFORM public.sync_profile_role(_user_id);
+
+  INSERT INTO public.user_audit_log (actor_user_id, target_user_id, target_email, action, role)
+  VALUES (auth.uid(), _user_id, _email, CASE WHEN _granted THEN 'grant_role' ELSE 'revoke_role' END, _role);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_active(_user_id UUID, _active BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _profile public.profiles;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage users'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  IF _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot deactivate your own account'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  SELECT * INTO _profile FROM public.profiles WHERE id = _user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _profile.is_active = _active THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.profiles SET is_active = _active WHERE id = _user_id;
+
+  INSERT INTO public.user_audit_log (actor_user_id, target_user_id, target_email, action)
+  VALUES (auth.uid(), _user_id, _profile.email, CASE WHEN _active THEN 'reactivate' ELSE 'deactivate' END);
+END;
+$$;
+
+-- Records the invitation and grants the role straight away when the account
+-- already exists. Returns true when the invitee still has to sign up, in
+-- which case the invite-staff edge function sends the invitation email.
+CREATE OR REPLACE FUNCTION public.invite_staff(_email TEXT, _full_name TEXT, _role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _clean_email TEXT := lower(trim(COALESCE(_email, '')));
+  _clean_name TEXT := trim(COALESCE(_full_name, ''));
+  _user_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage users'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  IF _role = 'student' THEN
+    RAISE EXCEPTION 'Invitations are for staff roles'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _clean_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' OR char_length(_clean_email) > 254 THEN
+    RAISE EXCEPTION 'Enter a valid email address'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF char_length(_clean_name) NOT BETWEEN 1 AND 100 THEN
+    RAISE EXCEPTION 'Name must be between 1 and 100 characters'
+      USING ERRCODE = '22001';
+  END IF;
+
+  INSERT INTO public.user_audit_log (actor_user_id, target_user_id, target_email, action, role)
+  SELECT auth.uid(), p.id, _clean_email, 'invite', _role
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.profiles p ON lower(p.email) = _clean_email;
+
+  SELECT id INTO _user_id FROM public.profiles WHERE lower(email) = _clean_email;
+
+  IF _user_id IS NOT NULL THEN
+    IF NOT public.has_role(_user_id, _role) THEN
+      PERFORM public.set_user_role(_user_id, _role, true);
+    END IF;
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.staff_invitations (email, full_name, role, invited_by)
+  VALUES (_clean_email, _clean_name, _role, auth.uid())
+  ON CONFLICT (email, role) DO UPDATE
+  SET full_name = EXCLUDED.full_name, invited_by = EXCLUDED.invited_by, created_at = now(), accepted_at = NULL;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_users(TEXT, public.app_role) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.set_user_role(UUID, public.app_role, BOOLEAN) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.set_user_active(UUID, BOOLEAN) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.invite_staff(TEXT, TEXT, public.app_role) FROM anon;
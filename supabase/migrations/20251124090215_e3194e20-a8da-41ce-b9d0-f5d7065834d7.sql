@@ -0,0 +1,69 @@
+-- Deactivated accounts (profiles.is_active = false) can no longer file or
+-- read complaints and attachments. The app also signs them out, but these
+-- policies are what actually keeps them out.
+
+CREATE OR REPLACE FUNCTION public.is_active_user(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT COALESCE((SELECT is_active FROM public.profiles WHERE id = _user_id), false)
+$$;
+
+DROP POLICY IF EXISTS "Students can view their own complaints" ON public.complaints;
+CREATE POLICY "Students can view their own complaints"
+  ON public.complaints FOR SELECT
+  USING (auth.uid() = student_id AND public.is_active_user(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can view all complaints" ON public.complaints;
+CREATE POLICY "Admins can view all complaints"
+  ON public.complaints FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin') AND NOT is_anonymous AND public.is_active_user(auth.uid()));
+
+DROP POLICY IF EXISTS "Students can create complaints" ON public.complaints;
+CREATE POLICY "Students can create complaints"
+  ON public.complaints FOR INSERT
+  WITH CHECK (auth.uid() = student_id AND public.is_active_user(auth.uid()));
+
+DROP POLICY IF EXISTS "Users can view attachments of their complaints" ON public.attachments;
+CREATE POLICY "Users can view attachments of their complaints"
+  ON public.attachments FOR SELECT
+  USING (
+    public.is_active_user(auth.uid()) AND (
+      auth.uid() = owner_user_id OR
+      EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = attachments.complaint_id
+        AND complaints.student_id = auth.uid()
+      ) OR (
+        public.has_role(auth.uid(), 'admin') AND
+        NOT EXISTS (
+          SELECT 1 FROM public.complaints
+          WHERE complaints.id = attachments.complaint_id
+          AND complaints.is_anonymous
+        )
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can insert attachments for their complaints" ON public.attachments;
+CREATE POLICY "Users can insert attachments for their complaints"
+  ON public.attachments FOR INSERT
+  WITH CHECK (
+    auth.uid() = owner_user_id AND
+    public.is_active_user(auth.uid()) AND
+    public.can_attach_to_complaint(auth.uid(), complaint_id)
+  );
+
+-- Users could otherwise reactivate themselves by updating their own profile
+DROP POLICY IF EXISTS "Users can update their own profile" ON public.profiles;
+CREATE POLICY "Users can update their own profile"
+  ON public.profiles FOR UPDATE
+  USING (auth.uid() = id)
+  WITH CHECK (
+    auth.uid() = id AND
+    role = (SELECT role FROM public.profiles WHERE id = auth.uid()) AND
+    is_active = (SELECT is_active FROM public.profiles WHERE id = auth.uid())
+  );
@@ -0,0 +1,46 @@
+-- Functions are executable by PUBLIC by default, so the earlier
+-- REVOKE ... FROM anon left every workflow function callable without signing
+-- in. Take EXECUTE away from PUBLIC and grant it to signed-in users only;
+-- each function still checks the caller's role itself.
+
+REVOKE EXECUTE ON FUNCTION public.reopen_complaint(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.confirm_complaint_resolution(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.update_complaint_status(UUID, public.complaint_status, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.assign_complaint(UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reveal_complaint_identity(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.can_attach_to_complaint(UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.search_admin_complaints(JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_default_saved_view(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.bulk_update_complaints(UUID[], TEXT, public.complaint_status, UUID, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.complaint_weekly_volume(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.complaint_weekly_backlog(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.complaint_response_times(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.complaint_admin_throughput(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.complaint_status_durations(UUID[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.import_complaints(JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.list_users(TEXT, public.app_role) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_user_role(UUID, public.app_role, BOOLEAN) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_user_active(UUID, BOOLEAN) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.invite_staff(TEXT, TEXT, public.app_role) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.is_active_user(UUID) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.reopen_complaint(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.confirm_complaint_resolution(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_complaint_status(UUID, public.complaint_status, TEXT, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.assign_complaint(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reveal_complaint_identity(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_attach_to_complaint(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_admin_complaints(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_default_saved_view(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.bulk_update_complaints(UUID[], TEXT, public.complaint_status, UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complaint_weekly_volume(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complaint_weekly_backlog(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complaint_response_times(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complaint_admin_throughput(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complaint_status_durations(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.import_complaints(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_users(TEXT, public.app_role) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_role(UUID, public.app_role, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_active(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.invite_staff(TEXT, TEXT, public.app_role) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_active_user(UUID) TO authenticated;
@@ -0,0 +1,68 @@
+-- SLA breaches are system events: log them without an actor instead of
+-- attributing them to the student, and keep record_sla_breaches for pg_cron
+-- only (functions are executable by PUBLIC unless revoked from it).
+
+ALTER TABLE public.complaint_status_history
+  ALTER COLUMN changed_by_user_id DROP NOT NULL;
+
+UPDATE public.complaint_status_history
+SET changed_by_user_id = NULL
+WHERE event_type = 'sla_breach';
+
+CREATE OR REPLACE FUNCTION public.record_sla_breaches()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  WITH due AS (
+    SELECT c.id, c.status, 'first_response'::text AS kind, c.first_response_due_at AS due_at
+    FROM public.complaints c
+    WHERE c.first_responded_at IS NULL
+      AND c.first_response_due_at < now()
+      AND c.status NOT IN ('resolved', 'rejected', 'closed')
+    UNION ALL
+    SELECT c.id, c.status, 'resolution', c.resolve_due_at
+    FROM public.complaints c
+    WHERE c.resolve_due_at < now()
+      AND c.status NOT IN ('resolved', 'rejected', 'closed')
+  ),
+  inserted AS (
+    INSERT INTO public.complaint_sla_breaches (complaint_id, kind, due_at)
+    SELECT id, kind, due_at FROM due
+    ON CONFLICT (complaint_id, kind) DO NOTHING
+    RETURNING complaint_id, kind, due_at
+  ),
+  logged AS (
+    INSERT INTO public.complaint_status_history (
+      complaint_id,
+      changed_by_user_id,
+      event_type,
+      from_status,
+      to_status,
+      note_snapshot
+    )
+    SELECT
+      i.complaint_id,
+      NULL,
+      'sla_breach',
+      d.status,
+      d.status,
+      CASE i.kind
+        WHEN 'first_response' THEN 'First response SLA breached (due ' || to_char(i.due_at, 'YYYY-MM-DD HH24:MI TZ') || ')'
+        ELSE 'Resolution SLA breached (due ' || to_char(i.due_at, 'YYYY-MM-DD HH24:MI TZ') || ')'
+      END
+    FROM inserted i
+    JOIN due d ON d.id = i.complaint_id AND d.kind = i.kind
+    RETURNING 1
+  )
+  SELECT count(*) INTO _count FROM logged;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_sla_breaches() FROM PUBLIC, anon, authenticated;
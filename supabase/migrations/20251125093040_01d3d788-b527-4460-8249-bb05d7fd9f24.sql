@@ -0,0 +1,54 @@
+-- Files uploaded before attachments moved to <complaint_id>/ still live
+-- under <student_id>/, so their storage path names the student. Hide those
+-- paths from staff on anonymous complaints: the view returns NULL and the
+-- attachment-url edge function signs URLs for them with the service role.
+
+CREATE OR REPLACE VIEW public.admin_attachments WITH (security_barrier = true) AS
+SELECT
+  att.id,
+  CASE WHEN c.is_anonymous AND att.owner_user_id = c.student_id THEN NULL
+       ELSE att.owner_user_id END AS owner_user_id,
+  CASE WHEN c.is_anonymous AND att.owner_user_id = c.student_id THEN NULL
+       ELSE p.full_name END AS uploader_full_name,
+  att.owner_user_id <> c.student_id AS uploaded_by_staff,
+  att.complaint_id,
+  att.original_filename,
+  CASE WHEN c.is_anonymous AND split_part(att.stored_path, '/', 1) <> c.id::text THEN NULL
+       ELSE att.stored_path END AS stored_path,
+  att.mime_type,
+  att.byte_size,
+  att.created_at
+FROM public.attachments att
+JOIN public.complaints c ON c.id = att.complaint_id
+LEFT JOIN public.profiles p ON p.id = att.owner_user_id
+WHERE public.has_role(auth.uid(), 'admin');
+
+-- Staff read files by path, so the same rule applies to the bucket: complaint
+-- folders, and legacy files of complaints that are not anonymous
+DROP POLICY IF EXISTS "Users can view their own attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can view all attachments" ON storage.objects;
+
+CREATE POLICY "Users can view their own attachments"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'complaint-attachments' AND
+    auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Admins can view complaint attachments"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'complaint-attachments' AND
+    public.has_role(auth.uid(), 'admin') AND (
+      EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id::text = (storage.foldername(name))[1]
+      ) OR
+      EXISTS (
+        SELECT 1 FROM public.attachments
+        JOIN public.complaints ON complaints.id = attachments.complaint_id
+        WHERE attachments.stored_path = objects.name
+        AND NOT complaints.is_anonymous
+      )
+    )
+  );
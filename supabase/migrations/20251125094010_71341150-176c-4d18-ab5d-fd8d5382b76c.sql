@@ -0,0 +1,50 @@
+-- can_attach_to_complaint took the user to check as an argument, so any
+-- signed-in user could call it for every profile and find the hidden author
+-- of an anonymous complaint. It now only answers for the caller.
+
+DROP POLICY IF EXISTS "Users can insert attachments for their complaints" ON public.attachments;
+DROP POLICY IF EXISTS "Students and assignees can upload complaint attachments" ON storage.objects;
+
+DROP FUNCTION public.can_attach_to_complaint(UUID, UUID);
+
+-- Uploads are open to the student who filed the complaint and to the admin
+-- it is assigned to, until the complaint is closed
+CREATE OR REPLACE FUNCTION public.can_attach_to_complaint(_complaint_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.complaints c
+    WHERE c.id = _complaint_id
+    AND c.status <> 'closed'
+    AND (
+      c.student_id = auth.uid() OR
+      (c.assigned_to = auth.uid() AND public.has_role(auth.uid(), 'admin'))
+    )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_attach_to_complaint(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_attach_to_complaint(UUID) TO authenticated;
+
+CREATE POLICY "Users can insert attachments for their complaints"
+  ON public.attachments FOR INSERT
+  WITH CHECK (
+    auth.uid() = owner_user_id AND
+    public.is_active_user(auth.uid()) AND
+    public.can_attach_to_complaint(complaint_id)
+  );
+
+CREATE POLICY "Students and assignees can upload complaint attachments"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'complaint-attachments' AND
+    EXISTS (
+      SELECT 1 FROM public.complaints
+      WHERE complaints.id::text = (storage.foldername(name))[1]
+      AND public.can_attach_to_complaint(complaints.id)
+    )
+  );
@@ -0,0 +1,122 @@
+-- Optimistic concurrency on a dedicated version instead of updated_at.
+-- updated_at also moves on assignment, routing and the first staff reply,
+-- so replying to a student made the admin's own status form stale. version
+-- only moves when the status or the admin note changes, and the check is
+-- no longer optional.
+
+ALTER TABLE public.complaints
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION public.bump_complaint_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status OR NEW.admin_note IS DISTINCT FROM OLD.admin_note THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_complaint_version
+  BEFORE UPDATE ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.bump_complaint_version();
+
+-- Every admin edit goes through update_complaint_status and the other
+-- workflow functions, so a direct UPDATE could only skip the version check
+DROP POLICY IF EXISTS "Admins can update complaints" ON public.complaints;
+
+CREATE OR REPLACE VIEW public.admin_complaints WITH (security_barrier = true) AS
+SELECT
+  c.id,
+  CASE WHEN c.is_anonymous THEN NULL ELSE c.student_id END AS student_id,
+  CASE WHEN c.is_anonymous THEN NULL ELSE s.full_name END AS student_full_name,
+  CASE WHEN c.is_anonymous THEN NULL ELSE s.email END AS student_email,
+  c.is_anonymous,
+  c.title,
+  c.category,
+  c.description,
+  c.status,
+  c.admin_note,
+  c.assigned_to,
+  a.full_name AS assignee_full_name,
+  c.resolved_at,
+  c.resolution_confirmed_at,
+  c.reopen_count,
+  c.first_response_due_at,
+  c.resolve_due_at,
+  c.first_responded_at,
+  c.created_at,
+  c.updated_at,
+  c.version
+FROM public.complaints c
+JOIN public.profiles s ON s.id = c.student_id
+LEFT JOIN public.profiles a ON a.id = c.assigned_to
+WHERE public.has_role(auth.uid(), 'admin');
+
+DROP FUNCTION IF EXISTS public.update_complaint_status(UUID, public.complaint_status, TEXT, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION public.update_complaint_status(
+  _complaint_id UUID,
+  _to_status public.complaint_status,
+  _note TEXT,
+  _expected_version INTEGER
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _complaint public.complaints;
+  _trimmed_note TEXT := NULLIF(trim(COALESCE(_note, '')), '');
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can update complaint status'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  IF _expected_version IS NULL THEN
+    RAISE EXCEPTION 'The version the edit was based on is required'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF char_length(_trimmed_note) > 5000 THEN
+    RAISE EXCEPTION 'Note must be at most 5000 characters'
+      USING ERRCODE = '22001';
+  END IF;
+
+  SELECT * INTO _complaint
+  FROM public.complaints
+  WHERE id = _complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found'
+      USING ERRCODE = 'BR005';
+  END IF;
+
+  IF _complaint.version <> _expected_version THEN
+    RAISE EXCEPTION 'Complaint was changed by someone else'
+      USING ERRCODE = 'BR007',
+            DETAIL = 'Current version: ' || _complaint.version::text;
+  END IF;
+
+  IF _complaint.status = 'closed' THEN
+    RAISE EXCEPTION 'Closed complaints cannot be modified'
+      USING ERRCODE = 'BR003';
+  END IF;
+
+  UPDATE public.complaints
+  SET status = _to_status,
+      admin_note = _trimmed_note
+  WHERE id = _complaint_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_complaint_status(UUID, public.complaint_status, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_complaint_status(UUID, public.complaint_status, TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,6 @@
+-- notify_users and admin_user_ids are only meant for the notification
+-- triggers. Revoking from anon and authenticated was not enough: functions
+-- are executable by PUBLIC by default, which let any signed-in user send
+-- notifications to anyone and list the admins.
+REVOKE EXECUTE ON FUNCTION public.notify_users(UUID[], UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.admin_user_ids() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,13 @@
+-- The email outbox is for the send-emails worker (service role) only.
+--
+-- Admins could read it, and status-change rows pair the student's address
+-- with the complaint id, which mapped anonymous complaints to their students
+-- without reveal_complaint_identity or its audit log. The worker functions
+-- were also executable by PUBLIC, so any signed-in user could claim queued
+-- emails (and with them names, titles and notes) or mark them sent.
+DROP POLICY IF EXISTS "Admins can view the email outbox" ON public.email_outbox;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_email_outbox(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_email_outbox(UUID, TEXT) TO service_role;
@@ -0,0 +1,39 @@
+-- Like the in-app notifications, status change emails skip the person who
+-- made the change, so a student reopening or confirming their own complaint
+-- is no longer emailed about it.
+
+-- Status changes: email the student unless they opted out or made the change
+CREATE OR REPLACE FUNCTION public.enqueue_status_change_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.event_type <> 'status_change' OR NEW.from_status IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.email_outbox (to_user_id, to_email, template, payload)
+  SELECT
+    p.id,
+    p.email,
+    'status_change',
+    jsonb_build_object(
+      'complaint_id', c.id,
+      'complaint_title', c.title,
+      'recipient_name', p.full_name,
+      'from_status', public.complaint_status_label(NEW.from_status),
+      'to_status', public.complaint_status_label(NEW.to_status),
+      'note', NEW.note_snapshot
+    )
+  FROM public.complaints c
+  JOIN public.profiles p ON p.id = c.student_id
+  WHERE c.id = NEW.complaint_id
+  AND p.is_active
+  AND p.email_on_status_change
+  AND p.id IS DISTINCT FROM auth.uid();
+
+  RETURN NEW;
+END;
+$$;
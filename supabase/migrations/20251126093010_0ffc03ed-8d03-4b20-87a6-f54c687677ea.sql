@@ -0,0 +1,59 @@
+-- History rows only carry a note written with the change itself. A bulk
+-- status change without a note copied each complaint's older admin note
+-- into its history row (and the status email), as if it were the reason.
+
+CREATE OR REPLACE FUNCTION public.log_complaint_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Only log if status actually changed
+  IF (TG_OP = 'INSERT') OR (OLD.status IS DISTINCT FROM NEW.status) THEN
+    INSERT INTO public.complaint_status_history (
+      complaint_id,
+      changed_by_user_id,
+      from_status,
+      to_status,
+      note_snapshot
+    ) VALUES (
+      NEW.id,
+      COALESCE(auth.uid(), NEW.student_id),
+      CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END,
+      NEW.status,
+      COALESCE(
+        NULLIF(current_setting('app.status_change_note', true), ''),
+        CASE
+          WHEN TG_OP = 'INSERT' THEN NEW.admin_note
+          WHEN NEW.admin_note IS DISTINCT FROM OLD.admin_note THEN NEW.admin_note
+        END
+      )
+    );
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND OLD.assigned_to IS DISTINCT FROM NEW.assigned_to
+     AND COALESCE(current_setting('app.skip_assignment_log', true), '') <> 'on' THEN
+    INSERT INTO public.complaint_status_history (
+      complaint_id,
+      changed_by_user_id,
+      event_type,
+      from_status,
+      to_status,
+      from_assignee,
+      to_assignee
+    ) VALUES (
+      NEW.id,
+      COALESCE(auth.uid(), NEW.student_id),
+      'assignment',
+      NEW.status,
+      NEW.status,
+      OLD.assigned_to,
+      NEW.assigned_to
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
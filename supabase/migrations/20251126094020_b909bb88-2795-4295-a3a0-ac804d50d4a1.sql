@@ -0,0 +1,75 @@
+-- First response times on the analytics page now count the first staff
+-- message as well as the first staff status change, like the first-response
+-- SLA does. A reply without a status change was left out before, so those
+-- complaints showed as never responded to.
+
+CREATE OR REPLACE FUNCTION public.complaint_response_times(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  category public.complaint_category,
+  complaint_count BIGINT,
+  responded_count BIGINT,
+  resolved_count BIGINT,
+  first_response_median_hours NUMERIC,
+  first_response_p90_hours NUMERIC,
+  resolve_median_hours NUMERIC,
+  resolve_p90_hours NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view analytics'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  RETURN QUERY
+  WITH timings AS (
+    SELECT
+      c.category,
+      -- Same rule as the first-response SLA: the first status change made by
+      -- staff or the first staff message, whichever came first
+      extract(epoch FROM least(
+        (
+          SELECT min(h.changed_at)
+          FROM public.complaint_status_history h
+          WHERE h.complaint_id = c.id
+            AND h.event_type = 'status_change'
+            AND h.from_status IS NOT NULL
+            AND public.has_role(h.changed_by_user_id, 'admin')
+        ),
+        (
+          SELECT min(m.created_at)
+          FROM public.complaint_messages m
+          WHERE m.complaint_id = c.id AND m.is_staff
+        )
+      ) - c.created_at) / 3600 AS response_hours,
+      extract(epoch FROM (
+        SELECT min(h.changed_at)
+        FROM public.complaint_status_history h
+        WHERE h.complaint_id = c.id
+          AND h.event_type = 'status_change'
+          AND h.to_status = 'resolved'
+      ) - c.created_at) / 3600 AS resolve_hours
+    FROM public.complaints c
+    WHERE c.created_at >= _from AND c.created_at < _to
+  )
+  SELECT
+    t.category,
+    count(*),
+    count(t.response_hours),
+    count(t.resolve_hours),
+    round((percentile_cont(0.5) WITHIN GROUP (ORDER BY t.response_hours))::numeric, 1),
+    round((percentile_cont(0.9) WITHIN GROUP (ORDER BY t.response_hours))::numeric, 1),
+    round((percentile_cont(0.5) WITHIN GROUP (ORDER BY t.resolve_hours))::numeric, 1),
+    round((percentile_cont(0.9) WITHIN GROUP (ORDER BY t.resolve_hours))::numeric, 1)
+  FROM timings t
+  GROUP BY GROUPING SETS ((t.category), ())
+  ORDER BY t.category NULLS FIRST;
+END;
+$$;
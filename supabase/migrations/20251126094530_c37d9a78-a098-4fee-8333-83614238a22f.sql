@@ -0,0 +1,5 @@
+-- complaint_status_history is only written by SECURITY DEFINER triggers and
+-- functions, but the baseline policy let any signed-in user insert rows
+-- directly. Analytics, exports and the timelines all read this table, so
+-- forged rows could fake response times or status changes.
+DROP POLICY IF EXISTS "System can insert history records" ON public.complaint_status_history;
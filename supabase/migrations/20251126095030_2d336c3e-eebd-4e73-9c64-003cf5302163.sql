@@ -0,0 +1,162 @@
+-- Imported complaints no longer email the student for their synthetic
+-- history, get SLA due dates that were breached long before the import, or
+-- credit the importing admin with their final status change.
+
+DROP TRIGGER enqueue_status_change_email ON public.complaint_status_history;
+CREATE TRIGGER enqueue_status_change_email
+  AFTER INSERT ON public.complaint_status_history
+  FOR EACH ROW
+  WHEN (COALESCE(current_setting('app.importing_complaints', true), '') <> 'on')
+  EXECUTE FUNCTION public.enqueue_status_change_email();
+
+DROP TRIGGER set_complaint_sla_due_dates ON public.complaints;
+CREATE TRIGGER set_complaint_sla_due_dates
+  BEFORE INSERT ON public.complaints
+  FOR EACH ROW
+  WHEN (COALESCE(current_setting('app.importing_complaints', true), '') <> 'on')
+  EXECUTE FUNCTION public.set_complaint_sla_due_dates();
+
+-- _rows is a JSON array of objects with title, description, category,
+-- student_email and optionally created_at, status, resolved_at, admin_note
+-- and is_anonymous. Every row is validated with the same limits as the
+-- complaint form; the first invalid row aborts the whole import. Returns the
+-- number of complaints created.
+CREATE OR REPLACE FUNCTION public.import_complaints(_rows JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _row JSONB;
+  _line INTEGER := 0;
+  _student_id UUID;
+  _complaint_id UUID;
+  _title TEXT;
+  _description TEXT;
+  _category public.complaint_category;
+  _status public.complaint_status;
+  _created_at TIMESTAMPTZ;
+  _resolved_at TIMESTAMPTZ;
+  _note TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can import complaints'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  IF jsonb_typeof(_rows) <> 'array' OR jsonb_array_length(_rows) = 0 THEN
+    RAISE EXCEPTION 'Nothing to import'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_array_length(_rows) > 2000 THEN
+    RAISE EXCEPTION 'At most 2000 complaints can be imported at once'
+      USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.importing_complaints', 'on', true);
+
+  FOR _row IN SELECT value FROM jsonb_array_elements(_rows) LOOP
+    _line := _line + 1;
+    _title := trim(COALESCE(_row->>'title', ''));
+    _description := trim(COALESCE(_row->>'description', ''));
+    _note := NULLIF(trim(COALESCE(_row->>'admin_note', '')), '');
+
+    BEGIN
+      _category := (_row->>'category')::public.complaint_category;
+      _status := COALESCE(NULLIF(_row->>'status', ''), 'open')::public.complaint_status;
+      _created_at := COALESCE((NULLIF(_row->>'created_at', ''))::timestamptz, now());
+      _resolved_at := (NULLIF(_row->>'resolved_at', ''))::timestamptz;
+    EXCEPTION WHEN invalid_text_representation OR invalid_datetime_format OR datetime_field_overflow THEN
+      RAISE EXCEPTION 'Row %: invalid category, status or date', _line
+        USING ERRCODE = '22023';
+    END;
+
+    IF char_length(_title) NOT BETWEEN 1 AND 120 THEN
+      RAISE EXCEPTION 'Row %: title must be between 1 and 120 characters', _line
+        USING ERRCODE = '22001';
+    END IF;
+
+    IF char_length(_description) NOT BETWEEN 1 AND 5000 THEN
+      RAISE EXCEPTION 'Row %: description must be between 1 and 5000 characters', _line
+        USING ERRCODE = '22001';
+    END IF;
+
+    IF char_length(_note) > 5000 THEN
+      RAISE EXCEPTION 'Row %: admin note must be at most 5000 characters', _line
+        USING ERRCODE = '22001';
+    END IF;
+
+    IF _created_at > now() OR _resolved_at < _created_at THEN
+      RAISE EXCEPTION 'Row %: dates are out of order', _line
+        USING ERRCODE = '22023';
+    END IF;
+
+    SELECT p.id INTO _student_id
+    FROM public.profiles p
+    WHERE lower(p.email) = lower(trim(_row->>'student_email'));
+
+    IF _student_id IS NULL THEN
+      RAISE EXCEPTION 'Row %: no student account for %', _line, _row->>'student_email'
+        USING ERRCODE = 'BR005';
+    END IF;
+
+    INSERT INTO public.complaints (
+      student_id,
+      title,
+      description,
+      category,
+      status,
+      admin_note,
+      is_anonymous,
+      created_at,
+      updated_at,
+      resolved_at
+    ) VALUES (
+      _student_id,
+      _title,
+      _description,
+      _category,
+      _status,
+      _note,
+      COALESCE((_row->>'is_anonymous')::boolean, false),
+      _created_at,
+      COALESCE(_resolved_at, _created_at),
+      CASE WHEN _status IN ('resolved', 'closed') THEN _resolved_at END
+    )
+    RETURNING id INTO _complaint_id;
+
+    INSERT INTO public.complaint_status_history (
+      complaint_id,
+      changed_by_user_id,
+      from_status,
+      to_status,
+      changed_at
+    ) VALUES (_complaint_id, _student_id, NULL, 'open', _created_at);
+
+    -- Only the final status is known, so it is recorded as one change with no
+    -- actor; crediting the importing admin would skew response times and throughput
+    IF _status <> 'open' THEN
+      INSERT INTO public.complaint_status_history (
+        complaint_id,
+        changed_by_user_id,
+        from_status,
+        to_status,
+        note_snapshot,
+        changed_at
+      ) VALUES (
+        _complaint_id,
+        NULL,
+        'open',
+        _status,
+        COALESCE(_note, 'Imported from the previous complaint log'),
+        COALESCE(_resolved_at, _created_at)
+      );
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('app.importing_complaints', '', true);
+  RETURN _line;
+END;
+$$;
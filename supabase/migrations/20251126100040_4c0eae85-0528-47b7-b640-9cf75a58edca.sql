@@ -0,0 +1,120 @@
+-- Staff invitations are only accepted by an account that has confirmed it
+-- owns the invited address. Before, anyone could sign up with a pending
+-- invitee's email and get the staff role from the profile insert without
+-- ever confirming it. Invitations now also expire after seven days.
+
+ALTER TABLE public.staff_invitations
+  ADD COLUMN expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + interval '7 days';
+
+REVOKE EXECUTE ON FUNCTION public.sync_profile_role(UUID) FROM PUBLIC;
+
+-- Runs for new profiles and for confirmed email addresses; both rows carry
+-- the account's id and email
+CREATE OR REPLACE FUNCTION public.accept_staff_invitations()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM auth.users u
+    WHERE u.id = NEW.id AND u.email_confirmed_at IS NOT NULL
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role)
+  SELECT NEW.id, i.role
+  FROM public.staff_invitations i
+  WHERE i.email = lower(NEW.email) AND i.accepted_at IS NULL AND i.expires_at > now()
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  IF FOUND THEN
+    UPDATE public.staff_invitations
+    SET accepted_at = now()
+    WHERE email = lower(NEW.email) AND accepted_at IS NULL AND expires_at > now();
+
+    PERFORM public.sync_profile_role(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER accept_staff_invitations
+  AFTER UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email_confirmed_at IS NULL AND NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION public.accept_staff_invitations();
+
+-- Records the invitation and grants the role straight away when the account
+-- already exists and has confirmed its email address. Returns true when the
+-- invitee still has to sign up, in which case the invite-staff edge function
+-- sends the invitation email.
+CREATE OR REPLACE FUNCTION public.invite_staff(_email TEXT, _full_name TEXT, _role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _clean_email TEXT := lower(trim(COALESCE(_email, '')));
+  _clean_name TEXT := trim(COALESCE(_full_name, ''));
+  _user_id UUID;
+  _confirmed BOOLEAN;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage users'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  IF _role = 'student' THEN
+    RAISE EXCEPTION 'Invitations are for staff roles'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _clean_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' OR char_length(_clean_email) > 254 THEN
+    RAISE EXCEPTION 'Enter a valid email address'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF char_length(_clean_name) NOT BETWEEN 1 AND 100 THEN
+    RAISE EXCEPTION 'Name must be between 1 and 100 characters'
+      USING ERRCODE = '22001';
+  END IF;
+
+  INSERT INTO public.user_audit_log (actor_user_id, target_user_id, target_email, action, role)
+  SELECT auth.uid(), p.id, _clean_email, 'invite', _role
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.profiles p ON lower(p.email) = _clean_email;
+
+  SELECT p.id, u.email_confirmed_at IS NOT NULL INTO _user_id, _confirmed
+  FROM public.profiles p
+  LEFT JOIN auth.users u ON u.id = p.id
+  WHERE lower(p.email) = _clean_email;
+
+  IF _user_id IS NOT NULL AND NOT _confirmed THEN
+    RAISE EXCEPTION 'That account has not confirmed its email address yet'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _user_id IS NOT NULL THEN
+    IF NOT public.has_role(_user_id, _role) THEN
+      PERFORM public.set_user_role(_user_id, _role, true);
+    END IF;
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.staff_invitations (email, full_name, role, invited_by)
+  VALUES (_clean_email, _clean_name, _role, auth.uid())
+  ON CONFLICT (email, role) DO UPDATE
+  SET full_name = EXCLUDED.full_name,
+      invited_by = EXCLUDED.invited_by,
+      created_at = now(),
+      expires_at = EXCLUDED.expires_at,
+      accepted_at = NULL;
+
+  RETURN true;
+END;
+$$;
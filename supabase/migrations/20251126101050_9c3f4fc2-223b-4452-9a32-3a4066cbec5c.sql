@@ -0,0 +1,248 @@
+-- has_role now also requires an active profile, so every admin check in RLS
+-- policies and workflow functions turns a deactivated admin away, not only
+-- the complaint and attachment policies. Places that ask what roles an
+-- account holds rather than what the caller may do (role management, the
+-- profiles.role mirror, analytics over past actions) read user_roles
+-- directly so deactivation does not drop those roles or erase that history.
+
+CREATE OR REPLACE FUNCTION public.has_role(_user_id uuid, _role app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role = _role
+  ) AND public.is_active_user(_user_id)
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_profile_role(_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  UPDATE public.profiles
+  SET role = CASE
+    WHEN EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = 'admin') THEN 'admin'::public.app_role
+    ELSE 'student'::public.app_role
+  END
+  WHERE id = _user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_role(_user_id UUID, _role public.app_role, _granted BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _email TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage users'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  IF _role = 'student' THEN
+    RAISE EXCEPTION 'The student role cannot be changed'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT email INTO _email FROM public.profiles WHERE id = _user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Roles held by a deactivated account still count here
+  IF EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = _role) = _granted THEN
+    RETURN;
+  END IF;
+
+  IF NOT _granted AND _role = 'admin' THEN
+    IF _user_id = auth.uid() THEN
+      RAISE EXCEPTION 'You cannot remove your own admin role'
+        USING ERRCODE = 'BR004';
+    END IF;
+
+    -- Serialise demotions so two admins cannot remove each other at once and
+    -- leave nobody able to manage users
+    PERFORM 1 FROM public.user_roles WHERE role = 'admin' FOR UPDATE;
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'Only admins can manage users'
+        USING ERRCODE = 'BR004';
+    END IF;
+  END IF;
+
+  IF _granted THEN
+    INSERT INTO public.user_roles (user_id, role) VALUES (_user_id, _role);
+  ELSE
+    DELETE FROM public.user_roles WHERE user_id = _user_id AND role = _role;
+  END IF;
+
+  PERFORM public.sync_profile_role(_user_id);
+
+  INSERT INTO public.user_audit_log (actor_user_id, target_user_id, target_email, action, role)
+  VALUES (auth.uid(), _user_id, _email, CASE WHEN _granted THEN 'grant_role' ELSE 'revoke_role' END, _role);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_active(_user_id UUID, _active BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _profile public.profiles;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage users'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  IF _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot deactivate your own account'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  SELECT * INTO _profile FROM public.profiles WHERE id = _user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _profile.is_active = _active THEN
+    RETURN;
+  END IF;
+
+  IF NOT _active AND EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = 'admin') THEN
+    -- Same lock as demotions, so two admins cannot deactivate each other at
+    -- once and leave nobody able to manage users
+    PERFORM 1 FROM public.user_roles WHERE role = 'admin' FOR UPDATE;
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'Only admins can manage users'
+        USING ERRCODE = 'BR004';
+    END IF;
+  END IF;
+
+  UPDATE public.profiles SET is_active = _active WHERE id = _user_id;
+
+  INSERT INTO public.user_audit_log (actor_user_id, target_user_id, target_email, action)
+  VALUES (auth.uid(), _user_id, _profile.email, CASE WHEN _active THEN 'reactivate' ELSE 'deactivate' END);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complaint_response_times(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  category public.complaint_category,
+  complaint_count BIGINT,
+  responded_count BIGINT,
+  resolved_count BIGINT,
+  first_response_median_hours NUMERIC,
+  first_response_p90_hours NUMERIC,
+  resolve_median_hours NUMERIC,
+  resolve_p90_hours NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view analytics'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  RETURN QUERY
+  WITH timings AS (
+    SELECT
+      c.category,
+      -- Same rule as the first-response SLA: the first status change made by
+      -- staff or the first staff message, whichever came first
+      extract(epoch FROM least(
+        (
+          SELECT min(h.changed_at)
+          FROM public.complaint_status_history h
+          WHERE h.complaint_id = c.id
+            AND h.event_type = 'status_change'
+            AND h.from_status IS NOT NULL
+            AND EXISTS (SELECT 1 FROM public.user_roles r WHERE r.user_id = h.changed_by_user_id AND r.role = 'admin')
+        ),
+        (
+          SELECT min(m.created_at)
+          FROM public.complaint_messages m
+          WHERE m.complaint_id = c.id AND m.is_staff
+        )
+      ) - c.created_at) / 3600 AS response_hours,
+      extract(epoch FROM (
+        SELECT min(h.changed_at)
+        FROM public.complaint_status_history h
+        WHERE h.complaint_id = c.id
+          AND h.event_type = 'status_change'
+          AND h.to_status = 'resolved'
+      ) - c.created_at) / 3600 AS resolve_hours
+    FROM public.complaints c
+    WHERE c.created_at >= _from AND c.created_at < _to
+  )
+  SELECT
+    t.category,
+    count(*),
+    count(t.response_hours),
+    count(t.resolve_hours),
+    round((percentile_cont(0.5) WITHIN GROUP (ORDER BY t.response_hours))::numeric, 1),
+    round((percentile_cont(0.9) WITHIN GROUP (ORDER BY t.response_hours))::numeric, 1),
+    round((percentile_cont(0.5) WITHIN GROUP (ORDER BY t.resolve_hours))::numeric, 1),
+    round((percentile_cont(0.9) WITHIN GROUP (ORDER BY t.resolve_hours))::numeric, 1)
+  FROM timings t
+  GROUP BY GROUPING SETS ((t.category), ())
+  ORDER BY t.category NULLS FIRST;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complaint_admin_throughput(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  admin_id UUID,
+  full_name TEXT,
+  complaints_handled BIGINT,
+  status_changes BIGINT,
+  resolved_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view analytics'
+      USING ERRCODE = 'BR004';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.full_name,
+    count(DISTINCT h.complaint_id),
+    count(*) FILTER (WHERE h.event_type = 'status_change'),
+    count(DISTINCT h.complaint_id) FILTER (WHERE h.event_type = 'status_change' AND h.to_status = 'resolved')
+  FROM public.complaint_status_history h
+  JOIN public.profiles p ON p.id = h.changed_by_user_id
+  WHERE h.changed_at >= _from AND h.changed_at < _to
+    AND h.event_type IN ('status_change', 'assignment', 'tag')
+    AND EXISTS (SELECT 1 FROM public.user_roles r WHERE r.user_id = h.changed_by_user_id AND r.role = 'admin')
+  GROUP BY p.id, p.full_name
+  ORDER BY 5 DESC, 3 DESC, p.full_name;
+END;
+$$;
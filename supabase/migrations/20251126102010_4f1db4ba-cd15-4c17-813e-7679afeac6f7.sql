@@ -0,0 +1,33 @@
+-- is_active_user answered for any account, so a signed-in user could find
+-- out who had been deactivated. The policies only ever ask about the caller,
+-- so it now answers for the caller alone (admins read is_active from
+-- profiles). has_role checks the profile itself instead of going through it.
+
+CREATE OR REPLACE FUNCTION public.is_active_user(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT COALESCE((SELECT is_active FROM public.profiles WHERE id = _user_id AND id = auth.uid()), false)
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_role(_user_id uuid, _role app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role = _role
+  ) AND EXISTS (
+    SELECT 1
+    FROM public.profiles
+    WHERE id = _user_id
+      AND is_active
+  )
+$$;
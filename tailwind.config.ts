@@ -64,6 +64,16 @@ export default {
           "in-progress-foreground": "hsl(var(--status-in-progress-foreground))",
           resolved: "hsl(var(--status-resolved))",
           "resolved-foreground": "hsl(var(--status-resolved-foreground))",
+          triaged: "hsl(var(--status-triaged))",
+          "triaged-foreground": "hsl(var(--status-triaged-foreground))",
+          waiting: "hsl(var(--status-waiting))",
+          "waiting-foreground": "hsl(var(--status-waiting-foreground))",
+          escalated: "hsl(var(--status-escalated))",
+          "escalated-foreground": "hsl(var(--status-escalated-foreground))",
+          rejected: "hsl(var(--status-rejected))",
+          "rejected-foreground": "hsl(var(--status-rejected-foreground))",
+          closed: "hsl(var(--status-closed))",
+          "closed-foreground": "hsl(var(--status-closed-foreground))",
         },
       },
       borderRadius: {